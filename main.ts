@@ -1,6 +1,15 @@
 // main.ts
 
 import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { readFileSync } from 'fs';
+import {
+  createRemoteImageFetcher,
+  isRemoteImageUrl,
+  isImageHostAllowed,
+  DEFAULT_IMAGE_DENY_HOSTS,
+  RemoteImageFetchConfig,
+  RemoteImageFetcher,
+} from './remote-image.js';
 import { config as loadEnv } from 'dotenv';
 
 // Load environment variables
@@ -15,19 +24,46 @@ declare const process: {
 
 /* ====== 类型定义 ====== */
 
-interface OpenAITextPart { type: "text"; text: string }
+// cache_control 为扩展字段，兼容 OpenRouter 风格的手动缓存断点
+interface OpenAITextPart { type: "text"; text: string; cache_control?: { type: "ephemeral" } }
 
 interface OpenAIImageUrlPart { type: "image_url"; image_url: { url: string } }
 
-type OpenAIContentPart = OpenAITextPart | OpenAIImageUrlPart;
+// file_data 为 data URL（data:application/pdf;base64,...）或裸 base64
+interface OpenAIFilePart { type: "file"; file: { file_data?: string; filename?: string; file_id?: string } }
+
+type OpenAIContentPart = OpenAITextPart | OpenAIImageUrlPart | OpenAIFilePart;
+
+interface OpenAIToolCall {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+}
 
 
 
 interface OpenAIMessage {
 
-  role: "system" | "user" | "assistant";
+  role: "system" | "user" | "assistant" | "tool";
+
+  // assistant 只有 tool_calls 时 content 可以为 null
+  content: string | OpenAIContentPart[] | null;
+
+  tool_calls?: OpenAIToolCall[];
+
+  // role: "tool" 专用字段
+  tool_call_id?: string;
+
+  name?: string;
 
-  content: string | OpenAIContentPart[];
+  // 扩展字段：标记工具执行失败，对应 Claude tool_result.is_error
+  is_error?: boolean;
+
+  // 扩展字段：assistant 回合的原始 thinking 块（含 signature），下一轮请求原样回传给 Claude
+  thinking_blocks?: ClaudeThinkingContentBlock[];
+
+  // 扩展字段：Responses API 的加密 reasoning 项，下一轮请求原样放回 input
+  reasoning_items?: FactoryAIReasoningItem[];
 
 }
 
@@ -45,7 +81,12 @@ interface OpenAIRequest {
 
   top_p?: number;
 
-  reasoning?: { effort?: string };
+  reasoning?: { effort?: string; max_tokens?: number };
+
+  reasoning_effort?: string;
+
+  // 扩展字段：为文档块开启 Claude citations，引用以 annotations 返回
+  citations?: boolean;
 
   [key: string]: any;
 
@@ -55,7 +96,9 @@ type FactoryAIContentPart =
 
   | { type: "input_text" | "output_text"; text: string }
 
-  | { type: "input_image"; image_url: string };
+  | { type: "input_image"; image_url: string }
+
+  | { type: "input_file"; file_data?: string; filename?: string; file_id?: string };
 
 
 
@@ -67,11 +110,65 @@ interface FactoryAIMessage {
 
 }
 
+interface FactoryAIFunctionCallItem {
+
+  type: "function_call";
+
+  call_id: string;
+
+  name: string;
+
+  arguments: string;
+
+}
+
+interface FactoryAIFunctionCallOutputItem {
+
+  type: "function_call_output";
+
+  call_id: string;
+
+  output: string;
+
+}
+
+// store: false 时上游不保存推理状态，需要客户端带回 encrypted_content
+interface FactoryAIReasoningItem {
+
+  type: "reasoning";
+
+  id?: string;
+
+  summary: { type: "summary_text"; text: string }[];
+
+  encrypted_content?: string;
+
+}
+
+type FactoryAIInputItem = FactoryAIMessage | FactoryAIFunctionCallItem | FactoryAIFunctionCallOutputItem | FactoryAIReasoningItem;
+
+// Responses API 的函数工具是扁平结构（没有 function 包装层）
+interface FactoryAIFunctionTool {
+
+  type: "function";
+
+  name: string;
+
+  description?: string;
+
+  parameters: Record<string, any>;
+
+  strict: boolean;
+
+}
+
+type FactoryAIToolChoice = "auto" | "none" | "required" | { type: "function"; name: string };
+
 interface FactoryAIRequest {
 
   model: string;
 
-  input: FactoryAIMessage[];
+  input: FactoryAIInputItem[];
 
   instructions?: string;
 
@@ -87,10 +184,20 @@ interface FactoryAIRequest {
 
   parallel_tool_calls?: boolean;
 
+  tools?: FactoryAIFunctionTool[];
+
+  tool_choice?: FactoryAIToolChoice;
+
   include?: string[];
 
   reasoning?: { effort?: string };
 
+  user?: string;
+
+  metadata?: Record<string, string>;
+
+  text?: { format: Record<string, any> };
+
 }
 
 
@@ -114,6 +221,13 @@ function isCodeAssistantPrompt(text: string): boolean {
          lowerText.includes("anthropic's official cli");
 }
 
+// Claude Code 的身份提示词：原生端点直接过滤，避免与合规提示词冲突
+function isClaudeCodeIdentityPrompt(text: string): boolean {
+  const lowerText = text.toLowerCase();
+  return lowerText.startsWith("you are claude code, anthropic's official cli for") ||
+         lowerText.startsWith("you are an interactive cli tool that helps users");
+}
+
 function buildSystemBlocks(additional: string[], enableCache: boolean = false): SystemTextBlock[] {
   const basePrompts = [COMPLIANCE_SYSTEM_PROMPT, BUFFER_SYSTEM_PROMPT];
   const baseBlocks = basePrompts.map((text): SystemTextBlock => ({ type: "text", text }));
@@ -146,6 +260,12 @@ function parseEnvList(value?: string | null): string[] {
     .filter(item => item.length > 0);
 }
 
+function parseEnvNumber(value: string | undefined, fallback: number): number {
+  if (!value) return fallback;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+}
+
 const FACTORY_API_KEYS = parseEnvList(process.env.FACTORY_API_KEYS);
 const PROXY_ACCESS_KEYS = parseEnvList(process.env.PROXY_ACCESS_KEYS);
 const PROXY_ACCESS_KEY_SET = new Set(PROXY_ACCESS_KEYS);
@@ -245,7 +365,7 @@ function ensureCompliancePrompts(messages: OpenAIMessage[]): OpenAIMessage[] {
 
 
 
-function renderOpenAIContentToText(content: string | OpenAIContentPart[]): string {
+function renderOpenAIContentToText(content: string | OpenAIContentPart[] | null): string {
 
   if (!Array.isArray(content)) return String(content ?? "");
 
@@ -261,6 +381,10 @@ function renderOpenAIContentToText(content: string | OpenAIContentPart[]): strin
 
       out += `\n[IMAGE:data-url]\n${part.image_url.url}\n`;
 
+    } else if (part.type === "file") {
+
+      out += `\n[FILE:${part.file.filename || part.file.file_id || "attachment"}]\n`;
+
     }
 
   }
@@ -323,6 +447,8 @@ const TEXT_MIMES = new Set([
 
 const IMAGE_MIME_PREFIX = "image/";
 
+const PDF_MIME = "application/pdf";
+
 const TEXT_EXTS = new Set([
 
   "txt","md","markdown","mkd","json","jsonl","yaml","yml","xml","csv","tsv","toml","ini","cfg","conf","dockerfile","Dockerfile","sh","bash","zsh","ps1","psm1","bat","cmd","py","rb","php","pl","lua","r","java","kt","swift","js","jsx","ts","tsx","c","cc","cpp","h","hpp","cs","go","rs","sql","vue","svelte","scss","css","less","html","htm","svg","gitignore","gitattributes","editorconfig"
@@ -425,6 +551,22 @@ function buildImageUrlPartFromDataURL(dataURL: string): OpenAIImageUrlPart {
 
 
 
+function buildFilePart(name: string, dataURL: string): OpenAIFilePart {
+
+  return { type: "file", file: { filename: name, file_data: dataURL } };
+
+}
+
+
+
+function isPdfFile(mime: string | null, name: string): boolean {
+
+  return mime === PDF_MIME || ((!mime || mime === "application/octet-stream") && name.toLowerCase().endsWith(".pdf"));
+
+}
+
+
+
 function toDataURL(mime: string | null, b64: string): string {
 
   return `data:${mime || "application/octet-stream"};base64,${b64}`;
@@ -507,6 +649,17 @@ async function tryParseMultipartToOpenAI(req: Request): Promise<OpenAIRequest |
 
 
 
+      // PDF 交给上游按文档解析（Claude document 块 / Responses input_file），不再内联 base64 文本
+      if (isPdfFile(mime, name)) {
+
+        fileParts.push(buildFilePart(name, toDataURL(PDF_MIME, uint8ToBase64(buf))));
+
+        continue;
+
+      }
+
+
+
       if (isProbablyText(mime, name, buf)) {
 
         const text = new TextDecoder("utf-8").decode(buf);
@@ -539,27 +692,107 @@ async function tryParseMultipartToOpenAI(req: Request): Promise<OpenAIRequest |
 
 
 
+/* ====== 远程图片抓取 ====== */
+
+// 抓取逻辑见 remote-image.ts，这里只读取环境变量配置
+const REMOTE_IMAGE_FETCH_CONFIG: RemoteImageFetchConfig = {
+  mode: process.env.IMAGE_FETCH_MODE?.toLowerCase() === "url" ? "url" : "base64",
+  timeoutMs: parseEnvNumber(process.env.IMAGE_FETCH_TIMEOUT_MS, 10000),
+  // Claude 单张图片上限 5MB
+  maxBytes: parseEnvNumber(process.env.IMAGE_FETCH_MAX_BYTES, 5 * 1024 * 1024),
+  allowHosts: parseEnvList(process.env.IMAGE_FETCH_ALLOW_HOSTS),
+  denyHosts: process.env.IMAGE_FETCH_DENY_HOSTS !== undefined
+    ? parseEnvList(process.env.IMAGE_FETCH_DENY_HOSTS)
+    : DEFAULT_IMAGE_DENY_HOSTS,
+  allowPrivateAddresses: process.env.IMAGE_FETCH_ALLOW_PRIVATE === "true",
+  cacheSize: parseEnvNumber(process.env.IMAGE_FETCH_CACHE_SIZE, 64),
+  cacheTtlMs: parseEnvNumber(process.env.IMAGE_FETCH_CACHE_TTL_MS, 10 * 60 * 1000),
+};
+
+const defaultRemoteImageFetcher = createRemoteImageFetcher(REMOTE_IMAGE_FETCH_CONFIG);
+
+// 发往 Claude 上游前把 http(s) 图片替换为 data URL；失败时保留原链接，由转换逻辑降级为文本
+async function inlineRemoteImages(
+  messages: OpenAIMessage[],
+  fetcher: RemoteImageFetcher = defaultRemoteImageFetcher,
+  config: RemoteImageFetchConfig = REMOTE_IMAGE_FETCH_CONFIG,
+): Promise<void> {
+  if (config.mode !== "base64") return;
+
+  const pending: Promise<void>[] = [];
+
+  for (const message of messages) {
+    if (!Array.isArray(message.content)) continue;
+    for (const part of message.content) {
+      if (part.type !== "image_url" || !isRemoteImageUrl(part.image_url.url)) continue;
+      const url = part.image_url.url;
+      pending.push(
+        fetcher(url)
+          .then(image => {
+            part.image_url = { ...part.image_url, url: toDataURL(image.mime, image.b64) };
+            console.log(`已内联远程图片: ${url} (${image.mime})`);
+          })
+          .catch(e => {
+            console.warn(`远程图片抓取失败: ${url}: ${e?.message || e}`);
+          }),
+      );
+    }
+  }
+
+  await Promise.all(pending);
+}
+
+
+
 /* ====== Claude类型定义 ====== */
 
-interface ClaudeTextBlock { type: "text"; text: string }
+type ClaudeCacheControl = { type: "ephemeral" };
+
+interface ClaudeTextBlock { type: "text"; text: string; cache_control?: ClaudeCacheControl }
+
+interface ClaudeImageBlock {
+  type: "image";
+  source: { type: "base64"; media_type: string; data: string } | { type: "url"; url: string };
+  cache_control?: ClaudeCacheControl;
+}
+
+interface ClaudeDocumentBlock {
+  type: "document";
+  source: { type: "base64"; media_type: "application/pdf"; data: string } | { type: "text"; media_type: "text/plain"; data: string };
+  title?: string;
+  citations?: { enabled: boolean };
+  cache_control?: ClaudeCacheControl;
+}
+
+interface ClaudeThinkingBlock { type: "thinking"; thinking: string; signature: string }
+
+interface ClaudeRedactedThinkingBlock { type: "redacted_thinking"; data: string }
 
-interface ClaudeImageBlock { type: "image"; source: { type: "base64"; media_type: string; data: string } }
+type ClaudeThinkingContentBlock = ClaudeThinkingBlock | ClaudeRedactedThinkingBlock;
 
 interface ClaudeToolUseBlock {
   type: "tool_use";
   id: string;
   name: string;
   input: any;
+  cache_control?: ClaudeCacheControl;
 }
 
 interface ClaudeToolResultBlock {
   type: "tool_result";
   tool_use_id: string;
-  content: string;
+  content: string | (ClaudeTextBlock | ClaudeImageBlock | ClaudeDocumentBlock)[];
   is_error?: boolean;
+  cache_control?: ClaudeCacheControl;
 }
 
-type ClaudeContentBlock = ClaudeTextBlock | ClaudeImageBlock | ClaudeToolUseBlock | ClaudeToolResultBlock;
+type ClaudeContentBlock =
+  | ClaudeTextBlock
+  | ClaudeImageBlock
+  | ClaudeDocumentBlock
+  | ClaudeThinkingContentBlock
+  | ClaudeToolUseBlock
+  | ClaudeToolResultBlock;
 
 
 
@@ -587,8 +820,15 @@ interface ClaudeTool {
     properties: Record<string, any>;
     required?: string[];
   };
+  strict?: boolean;
+  cache_control?: ClaudeCacheControl;
 }
 
+type ClaudeToolChoice =
+  | { type: "auto" | "any"; disable_parallel_tool_use?: boolean }
+  | { type: "tool"; name: string; disable_parallel_tool_use?: boolean }
+  | { type: "none" };
+
 interface ClaudeRequest {
 
   model: string;
@@ -605,9 +845,17 @@ interface ClaudeRequest {
 
   top_p?: number;
 
+  stop_sequences?: string[];
+
+  metadata?: { user_id?: string };
+
   thinking?: ClaudeThinking;
 
-  tools?: ClaudeTool[];
+  tools?: (ClaudeTool | ClaudeWebSearchTool)[];
+
+  tool_choice?: ClaudeToolChoice;
+
+  output_config?: { effort?: string };
 
 }
 
@@ -633,7 +881,7 @@ interface OpenAIError {
 
 
 
-function createOpenAIError(message: string, type: string = "api_error", code: string | null = null): OpenAIError {
+function createOpenAIError(message: string, type: string = "api_error", code: string | null = null, param: string | null = null): OpenAIError {
 
   return {
 
@@ -645,7 +893,7 @@ function createOpenAIError(message: string, type: string = "api_error", code: st
 
       code,
 
-      param: null,
+      param,
 
     },
 
@@ -655,9 +903,9 @@ function createOpenAIError(message: string, type: string = "api_error", code: st
 
 
 
-function createErrorResponse(message: string, status: number, type: string = "api_error", code: string | null = null): Response {
+function createErrorResponse(message: string, status: number, type: string = "api_error", code: string | null = null, param: string | null = null): Response {
 
-  return new Response(JSON.stringify(createOpenAIError(message, type, code)), {
+  return new Response(JSON.stringify(createOpenAIError(message, type, code, param)), {
 
     status,
 
@@ -679,6 +927,34 @@ function createErrorResponse(message: string, status: number, type: string = "ap
 
 
 
+// 请求参数校验失败：在转换阶段抛出，由处理函数转换成 400 响应，不会发往上游
+class InvalidRequestError extends Error {
+
+  constructor(message: string, public param: string | null = null, public code: string | null = "invalid_value") {
+
+    super(message);
+
+    this.name = "InvalidRequestError";
+
+  }
+
+}
+
+// 请求体不是合法 JSON 时按参数错误处理（400），而不是 500
+const OPENAI_INVALID_JSON_MESSAGE = "We could not parse the JSON body of your request. Please make sure the body is valid JSON.";
+
+const ANTHROPIC_INVALID_JSON_MESSAGE = "Request body is not valid JSON";
+
+async function readJSONBody<T>(req: Request, message: string = OPENAI_INVALID_JSON_MESSAGE): Promise<T> {
+  try {
+    return await req.json() as T;
+  } catch {
+    throw new InvalidRequestError(message, null, null);
+  }
+}
+
+
+
 async function createErrorResponseFromUpstream(upstreamResp: Response, source: string): Promise<Response> {
 
   let errorMessage: string;
@@ -749,2428 +1025,6589 @@ async function createErrorResponseFromUpstream(upstreamResp: Response, source: s
 
 
 
-/* ====== 工具：SSE解析器 ====== */
+/* ====== Anthropic 格式错误 ====== */
 
-type SSEHandler = (evt: { event?: string; data?: string }) => void | Promise<void>;
+// /v1/messages 系列端点使用 Anthropic 的错误信封：{type:"error", error:{type, message}}
+interface AnthropicError {
 
+  type: "error";
 
+  error: {
 
-async function parseSSEStream(resp: Response, onEvent: SSEHandler) {
+    type: string;
 
-  const reader = resp.body?.getReader();
+    message: string;
 
-  if (!reader) throw new Error("No response body");
+  };
 
+}
 
 
-  const decoder = new TextDecoder();
 
-  let buf = "";
+// Anthropic 错误类型与 HTTP 状态码的对应关系
+const ANTHROPIC_ERROR_STATUS: Record<string, number> = {
 
-  let eventName: string | undefined;
+  invalid_request_error: 400,
 
-  let dataLines: string[] = [];
+  authentication_error: 401,
 
+  permission_error: 403,
 
+  not_found_error: 404,
 
-  const flushEvent = async () => {
+  request_too_large: 413,
 
-    if (dataLines.length) {
+  rate_limit_error: 429,
 
-      const data = dataLines.join("\n");
+  api_error: 500,
 
-      await onEvent({ event: eventName, data });
+  overloaded_error: 529,
 
-    }
+};
 
-    eventName = undefined;
 
-    dataLines = [];
 
-  };
+function anthropicErrorTypeForStatus(status: number): string {
 
+  const matched = Object.entries(ANTHROPIC_ERROR_STATUS).find(([, code]) => code === status);
 
+  if (matched) return matched[0];
 
-  while (true) {
+  return status >= 500 ? "api_error" : "invalid_request_error";
 
-    const { done, value } = await reader.read();
+}
 
-    if (done) break;
 
 
+function createAnthropicError(message: string, type: string = "api_error"): AnthropicError {
 
-    buf += decoder.decode(value, { stream: true });
+  return {
 
+    type: "error",
 
+    error: {
 
-    let idx: number;
+      type,
 
-    while ((idx = buf.indexOf("\n")) >= 0) {
+      message,
 
-      const line = buf.slice(0, idx);
+    },
 
-      buf = buf.slice(idx + 1);
+  };
 
+}
 
 
-      const trimmed = line.trimEnd();
 
+function createAnthropicErrorResponse(message: string, type: string = "api_error", status: number = ANTHROPIC_ERROR_STATUS[type] ?? 500): Response {
 
+  return new Response(JSON.stringify(createAnthropicError(message, type)), {
 
-      if (trimmed === "") {
+    status,
 
-        await flushEvent();
+    headers: {
 
-        continue;
+      "Content-Type": "application/json",
 
-      }
+      "Access-Control-Allow-Origin": "*",
 
-      if (trimmed.startsWith("event:")) {
+      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
 
-        eventName = trimmed.slice(6).trim();
+      "Access-Control-Allow-Headers": CORS_ALLOW_HEADERS,
 
-        continue;
+    },
 
-      }
+  });
 
-      if (trimmed.startsWith("data:")) {
+}
 
-        dataLines.push(trimmed.slice(5).trimStart());
 
-        continue;
 
-      }
+// Claude 上游已经是 Anthropic 格式的错误原样透传；Factory 自己的错误格式再包装成 Anthropic 信封
+async function createAnthropicErrorResponseFromUpstream(upstreamResp: Response, source: string): Promise<Response> {
 
-    }
+  let bodyText: string;
 
-  }
+  try {
 
-  if (buf.trim().length > 0) {
+    bodyText = await upstreamResp.text();
 
-    dataLines.push(buf.trim());
+  } catch (e) {
+
+    bodyText = `Failed to read error response: ${e}`;
 
   }
 
-  await flushEvent();
 
-}
 
+  let errorData: any;
 
+  try {
 
-/* ====== 模型识别 ====== */
+    errorData = JSON.parse(bodyText);
 
-function isBedrockModel(model: string): boolean {
+  } catch {}
 
-  if (typeof model !== "string") return false;
 
-  return model.toLowerCase().includes("bedrock");
 
-}
+  console.error(`${source} API Error (${upstreamResp.status}): ${bodyText}`);
 
 
 
-function stripBedrockPrefix(model: string): string {
+  if (errorData?.type === "error" && typeof errorData.error?.type === "string") {
 
-  if (typeof model !== "string") return "";
+    return new Response(bodyText, {
 
-  return model.replace(/^bedrock[-_:]?/i, "");
+      status: upstreamResp.status,
 
-}
+      headers: {
 
+        "Content-Type": "application/json",
 
+        "Access-Control-Allow-Origin": "*",
 
-function isVertexModel(model: string): boolean {
+        "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
 
-  if (typeof model !== "string") return false;
+        "Access-Control-Allow-Headers": CORS_ALLOW_HEADERS,
 
-  return model.toLowerCase().includes("vertex");
+      },
 
-}
+    });
 
+  }
 
 
-function stripVertexPrefix(model: string): string {
 
-  if (typeof model !== "string") return "";
+  const errorMessage = errorData?.error?.message || errorData?.message || bodyText || upstreamResp.statusText;
 
-  return model.replace(/^vertex[-_:]?/i, "");
+  return createAnthropicErrorResponse(
 
-}
+    `${source} API Error (${upstreamResp.status}): ${errorMessage}`,
 
+    anthropicErrorTypeForStatus(upstreamResp.status),
 
+    upstreamResp.status,
 
-function isClaudeModel(model: string): boolean {
+  );
 
-  if (typeof model !== "string") return false;
+}
 
-  return model.toLowerCase().includes("claude");
 
-}
 
+// 内部复用 OpenAI 处理流程时，把它返回的 OpenAI 格式错误转换为 Anthropic 格式
+async function openAIErrorResponseToAnthropic(errorResp: Response): Promise<Response> {
 
+  let message = `Upstream error (${errorResp.status})`;
 
-function isClaudeThinkingModel(model: string): boolean {
+  let type = anthropicErrorTypeForStatus(errorResp.status);
 
-  if (typeof model !== "string") return false;
+  try {
 
-  const lower = model.toLowerCase();
+    const errorData = await errorResp.json();
 
-  return lower.includes("claude") && lower.includes("-thinking");
+    if (errorData?.error?.message) message = errorData.error.message;
 
-}
+    // 上游透传来的类型若本身就是 Anthropic 类型则保留
+    if (errorData?.error?.type && errorData.error.type in ANTHROPIC_ERROR_STATUS) type = errorData.error.type;
 
-function isGeminiModel(model: string): boolean {
-  if (typeof model !== "string") return false;
-  return model.toLowerCase().includes("gemini");
-}
+  } catch {}
+
+  return createAnthropicErrorResponse(message, type, errorResp.status);
 
-function isClaudeSearchModel(model: string): boolean {
-  if (typeof model !== "string") return false;
-  const lower = model.toLowerCase();
-  return lower.includes("claude") && lower.includes("-search");
 }
 
-function normalizeClaudeModel(model: string): string {
 
-  if (typeof model !== "string") return "";
 
-  // 移除 -thinking 和 -search 后缀
-  return model.replace(/-thinking$/i, "").replace(/-search$/i, "");
+/* ====== 工具：SSE解析器 ====== */
 
-}
+type SSEHandler = (evt: { event?: string; data?: string }) => void | Promise<void>;
 
-// Claude web_search 工具定义
-interface ClaudeWebSearchTool {
-  type: "web_search_20250305";
-  name: "web_search";
-  max_uses?: number;
-  allowed_domains?: string[];
-  blocked_domains?: string[];
-}
 
 
+async function parseSSEStream(resp: Response, onEvent: SSEHandler) {
 
-/* ====== OpenAI/Claude Tools 转换 ====== */
+  const reader = resp.body?.getReader();
 
-function convertToolsToClaude(tools: any[]): ClaudeTool[] {
-  const claudeTools: ClaudeTool[] = [];
+  if (!reader) throw new Error("No response body");
 
-  for (const tool of tools) {
-    // 检查是否已经是 Claude 格式（有 input_schema）
-    if (tool.input_schema) {
-      claudeTools.push({
-        name: tool.name,
-        description: tool.description || "",
-        input_schema: tool.input_schema
-      });
-    }
-    // 支持 OpenAI 标准格式
-    else if (tool.type === "function" && tool.function) {
-      claudeTools.push({
-        name: tool.function.name,
-        description: tool.function.description || "",
-        input_schema: tool.function.parameters || {
-          type: "object",
-          properties: {},
-        }
-      });
-    }
-    // 支持简化格式（有 name 但没有 input_schema）
-    else if (tool.name && !tool.input_schema) {
-      claudeTools.push({
-        name: tool.name,
-        description: tool.description || "",
-        input_schema: tool.parameters || {
-          type: "object",
-          properties: {},
-        }
-      });
-    }
-  }
 
-  return claudeTools;
-}
-
-/* ====== OpenAI -> Claude 转换 ====== */
 
-function toClaudeRequest(openaiReq: OpenAIRequest): ClaudeRequest {
+  const decoder = new TextDecoder();
 
-  const { model, messages, stream, max_tokens } = openaiReq;
+  let buf = "";
 
+  let eventName: string | undefined;
 
+  let dataLines: string[] = [];
 
-  const additionalSystem = collectSystemInstructions(messages);
 
-  const system = buildSystemBlocks(additionalSystem);
 
-  const claudeMessages: ClaudeMessage[] = messages
+  const flushEvent = async () => {
 
-    .filter(m => m.role !== "system")
+    if (dataLines.length) {
 
-    .map(m => {
+      const data = dataLines.join("\n");
 
-      const role = m.role as "user" | "assistant";
+      await onEvent({ event: eventName, data });
 
-      if (Array.isArray(m.content)) {
+    }
 
-        const parts = m.content as OpenAIContentPart[];
+    eventName = undefined;
 
-        const blocks: ClaudeContentBlock[] = [];
+    dataLines = [];
 
-        for (const part of parts) {
+  };
 
-          if (part.type === "text") {
 
-            blocks.push({ type: "text", text: part.text });
 
-          } else if (part.type === "image_url") {
+  while (true) {
 
-            const parsed = parseDataURL(part.image_url.url);
+    const { done, value } = await reader.read();
 
-            if (parsed) {
+    if (done) break;
 
-              blocks.push({
 
-                type: "image",
 
-                source: { type: "base64", media_type: parsed.mime, data: parsed.b64 },
+    buf += decoder.decode(value, { stream: true });
 
-              });
 
-            } else {
 
-              blocks.push({ type: "text", text: `[image_url] ${part.image_url.url}` });
+    let idx: number;
 
-            }
+    while ((idx = buf.indexOf("\n")) >= 0) {
 
-          }
+      const line = buf.slice(0, idx);
 
-        }
+      buf = buf.slice(idx + 1);
 
-        if (!blocks.length) blocks.push({ type: "text", text: "" });
 
-        return { role, content: blocks };
 
-      }
+      const trimmed = line.trimEnd();
 
-      const textContent = String(m.content ?? "");
-      return {
 
-        role,
 
-        content: textContent,
+      if (trimmed === "") {
 
-      };
+        await flushEvent();
 
-    });
+        continue;
 
+      }
 
+      if (trimmed.startsWith("event:")) {
 
-  const needsThinking = isClaudeThinkingModel(model);
-  const needsSearch = isClaudeSearchModel(model);
+        eventName = trimmed.slice(6).trim();
 
-  const actualModel = normalizeClaudeModel(model);
+        continue;
 
-  
+      }
 
-  // thinking模式下需要更多tokens
+      if (trimmed.startsWith("data:")) {
 
-  const thinkingBudget = 16384;
+        dataLines.push(trimmed.slice(5).trimStart());
 
-  const minMaxTokens = needsThinking ? thinkingBudget + 4096 : 4096;
+        continue;
 
-  const finalMaxTokens = max_tokens ?? minMaxTokens;
+      }
 
-  
+    }
 
-  // 确保max_tokens大于budget_tokens
+  }
 
-  if (needsThinking && finalMaxTokens <= thinkingBudget) {
+  if (buf.trim().length > 0) {
 
-    throw new Error(`Thinking mode requires max_tokens > ${thinkingBudget}, got ${finalMaxTokens}`);
+    dataLines.push(buf.trim());
 
   }
 
+  await flushEvent();
 
+}
 
-  const thinking: ClaudeThinking | undefined = needsThinking
-
-    ? {
 
-        type: "enabled",
 
-        budget_tokens: thinkingBudget,
+/* ====== 模型识别 ====== */
 
-      }
+// 只识别前缀，与 stripBedrockPrefix 保持一致
+function isBedrockModel(model: string): boolean {
 
-    : undefined;
+  if (typeof model !== "string") return false;
 
+  return /^bedrock[-_:]/i.test(model);
 
-  // thinking模式：只支持temperature=1，不能同时设置top_p
+}
 
-  // 非thinking模式：可以自由设置temperature和top_p
 
-  let temperature = needsThinking ? 1 : openaiReq.temperature;
-  let top_p = needsThinking ? undefined : openaiReq.top_p;
 
-  if (!needsThinking && temperature !== undefined && top_p !== undefined) {
-    console.warn("Claude parameter conflict: both temperature and top_p provided; dropping top_p to satisfy upstream.");
-    top_p = undefined;
-  }
+function stripBedrockPrefix(model: string): string {
 
-  // 构建工具列表
-  let tools: (ClaudeTool | ClaudeWebSearchTool)[] = [];
+  if (typeof model !== "string") return "";
 
-  // 如果前端传入了 tools，转换格式
-  if (openaiReq.tools) {
-    tools = convertToolsToClaude(openaiReq.tools);
-  }
+  return model.replace(/^bedrock[-_:]?/i, "");
 
-  // 如果启用搜索，添加 web_search 工具
-  if (needsSearch) {
-    const webSearchTool: ClaudeWebSearchTool = {
-      type: "web_search_20250305",
-      name: "web_search",
-      max_uses: 5,
-    };
-    tools.push(webSearchTool);
-    console.log("已添加 web_search 工具");
-  }
+}
 
-  return {
 
-    model: actualModel,
 
-    messages: claudeMessages,
+function isVertexModel(model: string): boolean {
 
-    max_tokens: finalMaxTokens,
+  if (typeof model !== "string") return false;
 
-    stream: stream ?? false,
+  return /^vertex[-_:]/i.test(model);
 
-    system,
+}
 
-    ...(temperature !== undefined ? { temperature } : {}),
 
-    ...(top_p !== undefined ? { top_p } : {}),
 
-    ...(thinking ? { thinking } : {}),
+function stripVertexPrefix(model: string): string {
 
-    // 工具列表（包括前端传入的和 web_search）
-    ...(tools.length > 0 ? { tools } : {}),
+  if (typeof model !== "string") return "";
 
-  };
+  return model.replace(/^vertex[-_:]?/i, "");
 
 }
 
 
 
-/* ====== OpenAI -> Factory AI 转换 ====== */
+function isClaudeModel(model: string): boolean {
 
-function toFactoryAIRequest(openaiReq: OpenAIRequest, forceStream: boolean): FactoryAIRequest {
+  if (typeof model !== "string") return false;
 
-  const {
+  return model.toLowerCase().includes("claude");
 
-    model,
+}
 
-    messages,
 
-    stream,
 
-    max_tokens,
+// 支持 -thinking 以及带预算的 -thinking-4k / -thinking-32k 后缀
+const THINKING_SUFFIX_RE = /-thinking(?:-(\d+)k)?(?=-search$|$)/i;
 
-    top_p,
+function isClaudeThinkingModel(model: string): boolean {
 
-    reasoning,
+  if (typeof model !== "string") return false;
 
-  } = openaiReq;
+  const lower = model.toLowerCase();
 
+  return lower.includes("claude") && THINKING_SUFFIX_RE.test(lower);
 
+}
 
-  const systemMessages = collectSystemInstructions(messages);
+// 从 -thinking-Nk 后缀解析 thinking 预算；只有 -thinking 时返回默认预算
+function parseThinkingSuffixBudget(model: string): number | undefined {
 
-  const instructions = [COMPLIANCE_SYSTEM_PROMPT, ...systemMessages].join("\n\n");
+  if (!isClaudeThinkingModel(model)) return undefined;
 
+  const match = THINKING_SUFFIX_RE.exec(model);
 
+  return match?.[1] ? Number(match[1]) * 1024 : DEFAULT_THINKING_BUDGET;
 
-  const input: FactoryAIMessage[] = messages
+}
 
-    .filter(m => m.role !== "system")
+// Claude Opus 4.5 支持 output_config.effort
+function isOpus45Model(model: string): boolean {
+  if (typeof model !== "string") return false;
+  const lower = model.toLowerCase();
+  return lower.includes("opus-4-5") || lower.includes("opus-4.5");
+}
 
-    .map(m => {
+function isGeminiModel(model: string): boolean {
+  if (typeof model !== "string") return false;
+  return model.toLowerCase().includes("gemini");
+}
 
-      const role = m.role;
+function isClaudeSearchModel(model: string): boolean {
+  if (typeof model !== "string") return false;
+  const lower = model.toLowerCase();
+  return lower.includes("claude") && lower.includes("-search");
+}
 
-      const parts: FactoryAIContentPart[] = [];
+function normalizeClaudeModel(model: string): string {
 
-      if (Array.isArray(m.content)) {
+  if (typeof model !== "string") return "";
 
-        for (const part of m.content as OpenAIContentPart[]) {
+  // 移除 -thinking / -thinking-Nk 和 -search 后缀（顺序不限）
+  return model.replace(/(?:-thinking(?:-\d+k)?|-search)+$/i, "");
 
-          if (part.type === "text") {
+}
 
-            parts.push({
+/* ====== 模型路由表 ====== */
 
-              type: role === "assistant" ? "output_text" : "input_text",
+type ModelProvider = "anthropic" | "bedrock" | "vertex" | "gemini" | "factory";
 
-              text: part.text,
+// MODEL_ROUTES_FILE 指定的 JSON 配置中的一条路由规则
+interface ModelRouteConfig {
 
-            });
+  // 精确模型 ID、glob（* / ?）或 /正则/flags
+  match: string;
 
-          } else if (part.type === "image_url") {
+  provider: ModelProvider;
 
-            parts.push({ type: "input_image", image_url: part.image_url.url });
+  // 上游模型 ID；缺省时使用请求的模型名（bedrock / vertex 去掉前缀）。可用 $1 引用正则捕获组或 glob 的 *
+  model?: string;
 
-          }
+  endpoint?: string;
 
-        }
+  // x-api-provider 请求头
+  api_provider?: string;
 
-      } else {
+  // 追加的 anthropic-beta
+  beta?: string[];
 
-        const text = String(m.content ?? "");
+  // 请求未提供时使用的参数（Chat Completions 参数名）
+  defaults?: Record<string, any>;
 
-        parts.push({
+  // 上游失败时依次尝试的模型（按路由表解析，同样支持 $1）
+  fallbacks?: string[];
 
-          type: role === "assistant" ? "output_text" : "input_text",
+  // 覆盖全局重试策略；false 关闭重试
+  retry?: RetryPolicyConfig | false;
 
-          text,
+}
 
-        });
+interface RetryPolicyConfig {
 
-      }
+  // 包括第一次请求在内的最大尝试次数
+  max_attempts?: number;
 
-      if (!parts.length) {
+  base_delay_ms?: number;
 
-        parts.push({
+  max_delay_ms?: number;
 
-          type: role === "assistant" ? "output_text" : "input_text",
+}
 
-          text: "",
+interface RetryPolicy {
 
-        });
+  maxAttempts: number;
 
-      }
+  baseDelayMs: number;
 
-      return { role, content: parts };
+  maxDelayMs: number;
 
-    });
+}
 
+// 团队别名：解析到具体模型，并附带预设参数
+interface ModelAliasConfig {
 
+  // 目标模型，按路由表解析（不能再指向别名）
+  model: string;
 
-  // 默认添加reasoning参数
-  let reasoningPayload: Record<string, unknown>;
+  // 预设参数（Chat Completions 参数名），优先级：请求 > 别名预设 > 路由 defaults
+  params?: Record<string, any>;
 
-  if (reasoning && typeof reasoning === "object") {
-    console.log("检测到reasoning参数:", JSON.stringify(reasoning));
-    reasoningPayload = { ...reasoning };
-  } else {
-    console.log("未检测到reasoning参数，使用默认值");
-    reasoningPayload = { effort: "medium" };
-  }
+  // 覆盖目标模型路由上的 fallbacks
+  fallbacks?: string[];
 
-  // 确保有summary字段
-  if (!("summary" in reasoningPayload)) {
-    reasoningPayload["summary"] = "auto";
-  }
+}
 
-  return {
-    model,
-    input,
-    instructions,
-    stream: forceStream ? true : Boolean(stream),
+interface ModelRoutingConfig {
 
-    max_output_tokens: max_tokens ?? 32000,
+  routes: ModelRouteConfig[];
 
-    top_p: top_p ?? 1.0,
-    store: false,
-    parallel_tool_calls: true,
-    include: ["reasoning.encrypted_content"],
-    reasoning: reasoningPayload,
-  };
-}
+  aliases: Record<string, ModelAliasConfig>;
 
+  // 没有规则命中时是否按模型名识别（默认开启）
+  fallback: boolean;
 
-/* ====== Factory AI -> OpenAI 流式chunk 转换 ====== */
+  // 名称识别也无法识别的模型转发到的上游；默认不设置，返回 400
+  unknownModelProvider?: "factory";
 
-function toOpenAIStreamChunkFromDelta(model: string, id: string, contentDelta?: string, withRole = false, reasoningDelta?: string) {
+}
 
-  const delta: Record<string, unknown> = {};
+interface ModelRoute {
 
-  if (withRole) delta.role = "assistant";
+  provider: ModelProvider;
 
-  if (contentDelta !== undefined) delta.content = contentDelta;
+  model: string;
 
-  if (reasoningDelta !== undefined) (delta as any).reasoning_content = reasoningDelta;
+  endpoint: string;
 
+  apiProvider?: string;
 
+  beta: string[];
 
-  return {
+  defaults: Record<string, any>;
 
-    id: `chatcmpl-${id}`,
+  // 命中的规则，用于日志
+  source: string;
 
-    object: "chat.completion.chunk",
+  // 主路由失败时依次尝试的候选（候选本身不再带 fallbacks）
+  fallbacks: ModelRoute[];
 
-    created: Math.floor(Date.now() / 1000),
+  retry: RetryPolicy;
 
-    model,
+}
 
-    choices: [
+const PROVIDER_DEFAULTS: Record<ModelProvider, { endpoint: string; apiProvider?: string; label: string; defaults?: Record<string, any> }> = {
+  anthropic: { endpoint: "https://app.factory.ai/api/llm/a/v1/messages", label: "Claude" },
+  bedrock: { endpoint: "https://app.factory.ai/api/llm/a/v1/messages", apiProvider: "bedrock_anthropic", label: "Bedrock" },
+  vertex: { endpoint: "https://app.factory.ai/api/llm/a/v1/messages", apiProvider: "vertex_anthropic", label: "Vertex" },
+  gemini: { endpoint: "https://app.factory.ai/api/llm/o/v1/chat/completions", apiProvider: "google", label: "Gemini", defaults: { reasoning_effort: "high" } },
+  factory: { endpoint: "https://app.factory.ai/api/llm/o/v1/responses", label: "Factory AI" },
+};
 
-      {
+// Claude 系上游（Messages API）
+function isAnthropicProvider(provider: ModelProvider): boolean {
+  return provider === "anthropic" || provider === "bedrock" || provider === "vertex";
+}
 
-        index: 0,
+// 精确匹配不区分大小写；glob 和正则统一编译为 RegExp，glob 的 * / ? 是捕获组
+function compileModelMatcher(pattern: string): RegExp {
 
-        delta,
+  const regexLiteral = /^\/(.+)\/([a-z]*)$/.exec(pattern);
 
-        finish_reason: null,
+  // 去掉 g / y，避免 test() 受 lastIndex 影响
+  if (regexLiteral) return new RegExp(regexLiteral[1], regexLiteral[2].replace(/[gy]/g, ""));
 
-      },
+  const source = pattern
+    .split("")
+    .map(ch => ch === "*" ? "(.*)" : ch === "?" ? "(.)" : ch.replace(/[.+^${}()|[\]\\]/g, "\\$&"))
+    .join("");
 
-    ],
-
-  };
+  return new RegExp(`^${source}$`, "i");
 
 }
 
+// 可选的字符串数组字段
+function isStringList(value: any): boolean {
+  return value === undefined || (Array.isArray(value) && value.every(item => typeof item === "string"));
+}
 
+function isRetryPolicyConfig(value: any): boolean {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) return false;
+  return ["max_attempts", "base_delay_ms", "max_delay_ms"]
+    .every(key => value[key] === undefined || (typeof value[key] === "number" && Number.isFinite(value[key]) && value[key] >= 0));
+}
 
-function toOpenAIStreamDone(model: string, id: string, usage?: any, reasoningContent?: string) {
+function parseModelRoutingConfig(raw: any, source: string): ModelRoutingConfig {
 
-  const chunk: any = {
+  const routes = Array.isArray(raw) ? raw : raw?.routes;
 
-    id: `chatcmpl-${id}`,
+  if (!Array.isArray(routes)) {
+    throw new Error(`路由配置无效 (${source}): 需要 routes 数组`);
+  }
 
-    object: "chat.completion.chunk",
+  const fallback = Array.isArray(raw) ? undefined : raw?.fallback;
 
-    created: Math.floor(Date.now() / 1000),
+  if (fallback !== undefined && typeof fallback !== "boolean" && fallback !== "factory") {
+    throw new Error(`路由配置无效 (${source}): fallback 必须是 true / false / "factory"`);
+  }
 
-    model,
+  routes.forEach((route: any, index: number) => {
+    if (typeof route?.match !== "string" || !route.match) {
+      throw new Error(`路由配置无效 (${source}): routes[${index}].match 必须是非空字符串`);
+    }
+    if (!(route.provider in PROVIDER_DEFAULTS)) {
+      throw new Error(`路由配置无效 (${source}): routes[${index}].provider 必须是 ${Object.keys(PROVIDER_DEFAULTS).join(" / ")}`);
+    }
+    if (!isStringList(route.beta)) {
+      throw new Error(`路由配置无效 (${source}): routes[${index}].beta 必须是字符串数组`);
+    }
+    if (route.defaults !== undefined && (typeof route.defaults !== "object" || route.defaults === null || Array.isArray(route.defaults))) {
+      throw new Error(`路由配置无效 (${source}): routes[${index}].defaults 必须是对象`);
+    }
+    if (!isStringList(route.fallbacks)) {
+      throw new Error(`路由配置无效 (${source}): routes[${index}].fallbacks 必须是字符串数组`);
+    }
+    if (route.retry !== undefined && route.retry !== false && !isRetryPolicyConfig(route.retry)) {
+      throw new Error(`路由配置无效 (${source}): routes[${index}].retry 必须是 false 或 { max_attempts, base_delay_ms, max_delay_ms }（非负数）`);
+    }
+  });
 
-    choices: [
+  const aliases = raw?.aliases ?? {};
 
-      {
+  if (typeof aliases !== "object" || Array.isArray(aliases)) {
+    throw new Error(`路由配置无效 (${source}): aliases 必须是对象`);
+  }
 
-        index: 0,
+  for (const [name, alias] of Object.entries<any>(aliases)) {
+    if (typeof alias?.model !== "string" || !alias.model) {
+      throw new Error(`路由配置无效 (${source}): aliases.${name}.model 必须是非空字符串`);
+    }
+    if (alias.params !== undefined && (typeof alias.params !== "object" || alias.params === null || Array.isArray(alias.params))) {
+      throw new Error(`路由配置无效 (${source}): aliases.${name}.params 必须是对象`);
+    }
+    if (!isStringList(alias.fallbacks)) {
+      throw new Error(`路由配置无效 (${source}): aliases.${name}.fallbacks 必须是字符串数组`);
+    }
+  }
 
-        delta: {},
+  return { routes, aliases, fallback: fallback !== false, ...(fallback === "factory" ? { unknownModelProvider: "factory" as const } : {}) };
 
-        finish_reason: "stop",
+}
 
-      },
+// UNKNOWN_MODEL_PROVIDER=factory 与路由表中的 "fallback": "factory" 等价，不需要路由表也能开启
+function parseUnknownModelProvider(value: string | undefined): "factory" | undefined {
+  if (!value) return undefined;
+  if (value.toLowerCase() === "factory") return "factory";
+  throw new Error(`UNKNOWN_MODEL_PROVIDER 无效: ${value}（只支持 factory）`);
+}
 
-    ],
+// 启动时读取一次；配置错误直接中止启动
+function loadModelRoutingConfig(path: string | undefined): ModelRoutingConfig {
 
-    usage,
+  const unknownModelProvider = parseUnknownModelProvider(process.env.UNKNOWN_MODEL_PROVIDER);
 
-  };
+  if (!path) return { routes: [], aliases: {}, fallback: true, unknownModelProvider };
 
-  if (reasoningContent) {
+  const config = parseModelRoutingConfig(JSON.parse(readFileSync(path, "utf8")), path);
 
-    (chunk.choices[0] as any).reasoning_content = reasoningContent;
+  config.unknownModelProvider ??= unknownModelProvider;
 
-  }
+  console.log(`已加载模型路由配置: ${path} (${config.routes.length} 条规则，${Object.keys(config.aliases).length} 个别名${config.fallback ? "" : "，已关闭名称识别"})`);
 
-  return chunk;
+  return config;
 
 }
 
+const MODEL_ROUTING = loadModelRoutingConfig(process.env.MODEL_ROUTES_FILE);
 
+const MODEL_ROUTE_MATCHERS = MODEL_ROUTING.routes.map(route => ({ route, pattern: compileModelMatcher(route.match) }));
 
-function toOpenAIStreamError(model: string, id: string, errorMessage: string, errorType: string = "api_error") {
+// 别名不区分大小写
+const MODEL_ALIAS_MAP = new Map(Object.entries(MODEL_ROUTING.aliases).map(([name, alias]) => [name.toLowerCase(), alias]));
 
-  return {
+// OpenAI 系模型名，走 Factory 的 Responses API
+const FACTORY_MODEL_NAME_RE = /^(?:gpt-|o\d|codex|chatgpt)/i;
 
-    id: `chatcmpl-${id}`,
+// 名称识别兜底：只在路由表没有命中时使用
+function detectModelProvider(model: string): ModelProvider | undefined {
+  if (isBedrockModel(model)) return "bedrock";
+  if (isVertexModel(model)) return "vertex";
+  if (isGeminiModel(model)) return "gemini";
+  if (isClaudeModel(model)) return "anthropic";
+  if (FACTORY_MODEL_NAME_RE.test(model)) return "factory";
+  return undefined;
+}
 
-    object: "chat.completion.chunk",
+function buildModelRoute(config: ModelRouteConfig, requestedModel: string, source: string): ModelRoute {
 
-    created: Math.floor(Date.now() / 1000),
+  const provider = PROVIDER_DEFAULTS[config.provider];
 
-    model,
+  const model = config.model
+    ?? (config.provider === "bedrock" ? stripBedrockPrefix(requestedModel)
+      : config.provider === "vertex" ? stripVertexPrefix(requestedModel)
+      : requestedModel);
 
-    choices: [
+  return {
+    provider: config.provider,
+    model,
+    endpoint: config.endpoint ?? provider.endpoint,
+    apiProvider: config.api_provider ?? provider.apiProvider,
+    beta: config.beta ?? [],
+    defaults: { ...provider.defaults, ...config.defaults },
+    source,
+    fallbacks: [],
+    retry: resolveRetryPolicy(config.retry),
+  };
 
-      {
+}
 
-        index: 0,
+// 别名优先；路由表按顺序匹配，第一条命中的规则生效；都不命中时按模型名识别，仍无法识别时返回 400（或按配置交给 Factory）
+function resolveModelRoute(model: string): ModelRoute {
 
-        delta: {},
+  const alias = MODEL_ALIAS_MAP.get(model.toLowerCase());
 
-        finish_reason: "error",
+  if (!alias) return resolveModelRouteByName(model);
 
-      },
+  const target = resolveModelRouteByName(alias.model);
 
-    ],
+  // 只填补缺失字段，所以预设覆盖路由 defaults、请求又覆盖预设；fallback 候选同样带上预设
+  const withPreset = (route: ModelRoute): ModelRoute => ({ ...route, defaults: { ...route.defaults, ...alias.params } });
 
-    error: {
+  const fallbacks = alias.fallbacks ? resolveFallbackRoutes(alias.fallbacks) : target.fallbacks;
 
-      message: errorMessage,
+  return {
+    ...withPreset(target),
+    source: `alias: ${model} -> ${alias.model}, ${target.source}`,
+    fallbacks: fallbacks.map(withPreset),
+  };
 
-      type: errorType,
+}
 
-    },
+function resolveModelRouteByName(model: string, withFallbacks: boolean = true): ModelRoute {
 
-  };
+  const matched = MODEL_ROUTE_MATCHERS.find(({ pattern }) => pattern.test(model));
 
-}
+  if (matched) {
+    const substitute = (value: string) => value.includes("$") ? model.replace(matched.pattern, value) : value;
+    const config = matched.route.model ? { ...matched.route, model: substitute(matched.route.model) } : matched.route;
+    const route = buildModelRoute(config, model, `routes: ${matched.route.match}`);
+    if (withFallbacks && matched.route.fallbacks) route.fallbacks = resolveFallbackRoutes(matched.route.fallbacks.map(substitute));
+    return route;
+  }
 
+  // glm-* / kimi-* 等无法识别的模型只在显式开启时交给 Factory，否则拼错的模型名会被静默转发
+  const provider = MODEL_ROUTING.fallback
+    ? detectModelProvider(model) ?? MODEL_ROUTING.unknownModelProvider
+    : undefined;
 
+  if (provider) return buildModelRoute({ match: model, provider }, model, "name detection");
 
-/* ====== Claude非流式响应 -> OpenAI格式 ====== */
+  throw new InvalidRequestError(
+    `The model '${model}' does not match any routing rule; add it to the routes in MODEL_ROUTES_FILE`,
+    "model",
+    "model_not_found",
+  );
 
-function claudeToOpenAINonStream(claudeResp: any, model: string) {
+}
 
-  // 提取主要内容和思维链内容
+// fallback 候选只解析一层；无法路由的候选跳过而不是让整个请求失败
+function resolveFallbackRoutes(models: string[]): ModelRoute[] {
+  return models.flatMap((model) => {
+    try {
+      return [resolveModelRouteByName(model, false)];
+    } catch (error: any) {
+      console.warn(`忽略无法路由的 fallback 模型 ${model}: ${error?.message || error}`);
+      return [];
+    }
+  });
+}
 
-  let content = "";
+function providerLabel(route: ModelRoute): string {
+  return PROVIDER_DEFAULTS[route.provider].label;
+}
 
-  let reasoningContent = "";
+// 互相冲突的参数按组处理：请求设置了组内任意一个，预设的整组都不生效
+// （thinking 预算先看 reasoning.max_tokens，Claude 同时收到 temperature 和 top_p 时会丢掉 top_p）
+const ROUTE_DEFAULT_PARAM_GROUPS: string[][] = [
+  ["reasoning", "reasoning_effort"],
+  ["temperature", "top_p"],
+  ["max_tokens", "max_completion_tokens"],
+];
 
+function routeDefaultParamGroup(key: string): string[] {
+  return ROUTE_DEFAULT_PARAM_GROUPS.find(group => group.includes(key)) ?? [key];
+}
 
+// 路由默认参数只填补请求中缺失的字段
+function applyRouteDefaults(body: Record<string, any>, defaults: Record<string, any>, allowed?: Set<string>): string[] {
+  const applied: string[] = [];
+  const requested = new Set(Object.keys(body).filter(key => body[key] !== undefined));
+  for (const [key, value] of Object.entries(defaults)) {
+    if (allowed && !allowed.has(key)) continue;
+    if (routeDefaultParamGroup(key).some(member => requested.has(member))) continue;
+    body[key] = value;
+    applied.push(key);
+  }
+  return applied;
+}
 
-  if (Array.isArray(claudeResp.content)) {
+// Claude 原生请求与 Responses 原生转发只接受两边同名的默认参数
+const NATIVE_ROUTE_DEFAULT_PARAMS = new Set(["temperature", "max_tokens"]);
 
-    for (const block of claudeResp.content) {
+const RESPONSES_ROUTE_DEFAULT_PARAMS = new Set(["temperature", "top_p", "parallel_tool_calls"]);
 
-      if (block.type === "text") {
+function buildRouteHeaders(route: ModelRoute, apiKey: string, extra: Record<string, string> = {}): Record<string, string> {
+  return {
+    "Content-Type": "application/json",
+    "Authorization": `Bearer ${apiKey}`,
+    ...extra,
+    ...(route.apiProvider ? { "x-api-provider": route.apiProvider } : {}),
+  };
+}
 
-        content += block.text || "";
+// Claude 原生请求：预设中的 thinking 预算和 web_search 转换为原生字段，其余只接受同名参数
+function applyClaudeNativeDefaults(claudeReq: any, defaults: Record<string, any>, model: string): string[] {
 
-      } else if (block.type === "thinking") {
+  const applied = applyRouteDefaults(claudeReq, defaults, NATIVE_ROUTE_DEFAULT_PARAMS);
 
-        reasoningContent += block.thinking || "";
+  const hasReasoningPreset = defaults.reasoning !== undefined || defaults.reasoning_effort !== undefined;
 
+  if (claudeReq.thinking === undefined && hasReasoningPreset) {
+    const budget = resolveThinkingBudget({ model, messages: [], reasoning: defaults.reasoning, reasoning_effort: defaults.reasoning_effort }, model);
+    if (budget) {
+      claudeReq.thinking = { type: "enabled", budget_tokens: budget };
+      // 与 OpenAI 路径一致：max_tokens 视为正文预算，叠加 thinking 预算
+      if (typeof claudeReq.max_tokens === "number" && claudeReq.max_tokens <= budget) {
+        claudeReq.max_tokens += budget;
       }
-
+      applied.push("thinking");
     }
-
   }
 
+  // thinking 只接受 temperature=1，默认参数里的 temperature 不再生效
+  if (claudeReq.thinking && applied.includes("temperature")) {
+    delete claudeReq.temperature;
+    applied.splice(applied.indexOf("temperature"), 1);
+  }
 
+  const hasWebSearch = Array.isArray(claudeReq.tools) && claudeReq.tools.some((tool: any) => tool?.name === "web_search");
 
-  const usage = claudeResp.usage
+  if (defaults.web_search_options !== undefined && !hasWebSearch) {
+    const tool = resolveWebSearchTool({ model, messages: [], web_search_options: defaults.web_search_options });
+    if (tool) {
+      claudeReq.tools = [...(claudeReq.tools ?? []), tool];
+      applied.push("web_search_options");
+    }
+  }
 
-    ? {
+  return applied;
 
-        prompt_tokens: claudeResp.usage.input_tokens ?? 0,
+}
 
-        completion_tokens: claudeResp.usage.output_tokens ?? 0,
+// Responses 原生转发：reasoning_effort / max_tokens 换成 Responses 的字段名
+function applyResponsesDefaults(body: Record<string, any>, defaults: Record<string, any>): string[] {
 
-        total_tokens:
+  const applied = applyRouteDefaults(body, defaults, RESPONSES_ROUTE_DEFAULT_PARAMS);
 
-          (claudeResp.usage.input_tokens ?? 0) + (claudeResp.usage.output_tokens ?? 0),
+  const effort = defaults.reasoning_effort ?? defaults.reasoning?.effort;
 
-      }
+  if (effort !== undefined && body.reasoning?.effort === undefined) {
+    body.reasoning = { ...body.reasoning, effort };
+    applied.push("reasoning_effort");
+  }
 
-    : undefined;
+  const maxTokens = defaults.max_completion_tokens ?? defaults.max_tokens;
 
+  if (maxTokens !== undefined && body.max_output_tokens === undefined) {
+    body.max_output_tokens = maxTokens;
+    applied.push("max_tokens");
+  }
 
-  return {
+  return applied;
 
-    id: `chatcmpl-${claudeResp.id || crypto.randomUUID()}`,
+}
 
-    object: "chat.completion",
+// 透传上游响应时把 model 改回客户端请求的名字（别名或路由改写前的模型名）
+function rewriteResponseModel(value: any, model: string): any {
+  if (!value || typeof value !== "object") return value;
+  if (typeof value.model === "string") value.model = model;
+  if (typeof value.message?.model === "string") value.message.model = model;
+  if (typeof value.response?.model === "string") value.response.model = model;
+  return value;
+}
 
-    created: Math.floor(Date.now() / 1000),
+function rewriteSSEModel(resp: Response, model: string): Response {
 
-    model,
+  if (!resp.body) return resp;
 
-    choices: [
+  const decoder = new TextDecoder();
 
-      {
+  const encoder = new TextEncoder();
 
-        index: 0,
+  let buffer = "";
 
-        message: {
+  const rewriteEvent = (event: string) => event
+    .split(/\r?\n/)
+    .map((line) => {
+      const payload = line.startsWith("data:") ? line.slice(5).trim() : "";
+      if (!payload || payload === "[DONE]") return line;
+      try {
+        return `data: ${JSON.stringify(rewriteResponseModel(JSON.parse(payload), model))}`;
+      } catch {
+        return line;
+      }
+    })
+    .join("\n");
+
+  const transform = new TransformStream<Uint8Array, Uint8Array>({
+    transform(chunk, controller) {
+      buffer += decoder.decode(chunk, { stream: true });
+      // 按完整的SSE事件分割，保留最后一个不完整的事件
+      const events = buffer.split(/\r?\n\r?\n/);
+      buffer = events.pop() ?? "";
+      for (const event of events) {
+        controller.enqueue(encoder.encode(rewriteEvent(event) + "\n\n"));
+      }
+    },
+    flush(controller) {
+      buffer += decoder.decode();
+      if (buffer.trim()) controller.enqueue(encoder.encode(rewriteEvent(buffer) + "\n\n"));
+    },
+  });
 
-          role: "assistant",
+  return new Response(resp.body.pipeThrough(transform), { status: resp.status, headers: resp.headers });
 
-          content: content, // 只返回正常内容
+}
 
-          ...(reasoningContent ? { reasoning_content: reasoningContent } : {}), // 思维链单独字段
+// 合并多个 anthropic-beta 值并去重
+function mergeBetaHeader(...values: (string | string[] | undefined)[]): string {
+  const betas = values
+    .flatMap(value => Array.isArray(value) ? value : (value ?? "").split(","))
+    .map(beta => beta.trim())
+    .filter(Boolean);
+  return [...new Set(betas)].join(",");
+}
 
-        },
 
-        finish_reason: "stop",
 
-      },
+/* ====== 上游重试 ====== */
 
-    ],
+// 这些状态码说明上游暂时不可用：先在同一上游退避重试，仍然失败再换下一个候选
+const RETRYABLE_STATUS_CODES = new Set([408, 429, 500, 502, 503, 504, 529]);
 
-    ...(usage ? { usage } : {}),
+const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: Math.max(1, Math.floor(parseEnvNumber(process.env.UPSTREAM_RETRY_MAX_ATTEMPTS, 3))),
+  baseDelayMs: parseEnvNumber(process.env.UPSTREAM_RETRY_BASE_DELAY_MS, 500),
+  maxDelayMs: parseEnvNumber(process.env.UPSTREAM_RETRY_MAX_DELAY_MS, 8000),
+};
 
-  };
+// 单个客户端请求累计的重试次数上限，所有 fallback 候选共用
+const UPSTREAM_RETRY_BUDGET = Math.max(0, Math.floor(parseEnvNumber(process.env.UPSTREAM_RETRY_BUDGET, 4)));
 
-}
+interface RetryBudget {
 
+  remaining: number;
 
+  // 客户端断开时触发：正在进行的上游请求和退避等待都会中止
+  signal?: AbortSignal;
 
-/* ====== Claude流式 -> OpenAI SSE ====== */
+}
 
-async function pipeClaudeStreamToClient(claudeResp: Response, model: string): Promise<Response> {
+function createRetryBudget(signal?: AbortSignal): RetryBudget {
+  return { remaining: UPSTREAM_RETRY_BUDGET, signal };
+}
 
-  const { readable, writable } = new TransformStream();
+function sleepUnlessAborted(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
 
-  const writer = writable.getWriter();
+function resolveRetryPolicy(config: RetryPolicyConfig | false | undefined): RetryPolicy {
+  if (config === false) return { ...DEFAULT_RETRY_POLICY, maxAttempts: 1 };
+  return {
+    maxAttempts: Math.max(1, Math.floor(config?.max_attempts ?? DEFAULT_RETRY_POLICY.maxAttempts)),
+    baseDelayMs: config?.base_delay_ms ?? DEFAULT_RETRY_POLICY.baseDelayMs,
+    maxDelayMs: config?.max_delay_ms ?? DEFAULT_RETRY_POLICY.maxDelayMs,
+  };
+}
 
-  const encoder = new TextEncoder();
+// retry-after-ms 优先，其次是 retry-after 的秒数或 HTTP 日期
+function parseRetryAfter(headers: Headers): number | undefined {
 
+  const ms = Number(headers.get("retry-after-ms"));
 
+  if (headers.has("retry-after-ms") && Number.isFinite(ms) && ms >= 0) return ms;
 
-  let responseId = `msg_${crypto.randomUUID()}`;
+  const value = headers.get("retry-after")?.trim();
 
-  let sentRoleHeader = false;
+  if (!value) return undefined;
 
-  let capturedUsage: any | undefined;
+  if (/^\d+(\.\d+)?$/.test(value)) return Number(value) * 1000;
 
-  let reasoningContent = "";
+  const date = Date.parse(value);
 
-  let hasThinking = false;
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
 
+}
 
+// 指数退避 + full jitter
+function computeBackoffDelay(policy: RetryPolicy, attempt: number): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+}
 
-  const writeChunk = async (obj: any) => {
+// 所有上游请求都经过这里：可重试的状态码或连接错误时在同一上游退避重试
+// fetch 在收到响应头时返回，这时客户端还没有收到任何数据；流式读取在这之后，已经开始的流不会被重试
+async function fetchUpstream(route: ModelRoute, url: string, init: RequestInit, budget: RetryBudget): Promise<Response> {
 
-    await writer.write(encoder.encode(`data: ${JSON.stringify(obj)}\n\n`));
+  const label = providerLabel(route);
 
-  };
+  for (let attempt = 1; ; attempt++) {
 
+    const canRetry = attempt < route.retry.maxAttempts && budget.remaining > 0 && !budget.signal?.aborted;
 
+    let delay: number;
 
-  (async () => {
+    let reason: string;
 
     try {
 
-      await parseSSEStream(claudeResp, async ({ data }) => {
+      const resp = await fetch(url, { ...init, signal: budget.signal });
 
-        if (!data) return;
+      if (resp.ok || !RETRYABLE_STATUS_CODES.has(resp.status) || !canRetry) return resp;
 
-        let parsed: any;
+      const retryAfter = parseRetryAfter(resp.headers);
 
-        try {
+      // 要求等待的时间超过上限时不再重试，交给 fallback 换上游
+      if (retryAfter !== undefined && retryAfter > route.retry.maxDelayMs) {
+        console.warn(`${label} 返回 ${resp.status}，retry-after ${retryAfter}ms 超过重试等待上限 ${route.retry.maxDelayMs}ms，不再重试`);
+        return resp;
+      }
 
-          parsed = JSON.parse(data);
+      delay = retryAfter ?? computeBackoffDelay(route.retry, attempt);
 
-        } catch {
+      reason = `返回 ${resp.status}`;
 
-          return;
+      try {
+        await resp.body?.cancel();
+      } catch {}
 
-        }
+    } catch (error: any) {
 
+      // 客户端已断开时 fetch 抛出 AbortError，不再重试
+      if (!canRetry || budget.signal?.aborted) throw error;
 
+      delay = computeBackoffDelay(route.retry, attempt);
 
-        switch (parsed?.type) {
+      reason = `连接失败 (${error?.message || error})`;
 
-          case "message_start": {
+    }
 
-            responseId = parsed.message?.id || responseId;
+    budget.remaining--;
 
-            if (!sentRoleHeader) {
+    console.warn(`${label} ${reason}，${delay}ms 后重试 (第 ${attempt + 1}/${route.retry.maxAttempts} 次，本次请求剩余重试 ${budget.remaining} 次)`);
 
-              sentRoleHeader = true;
+    await sleepUnlessAborted(delay, budget.signal);
 
-              await writeChunk(toOpenAIStreamChunkFromDelta(model, responseId, undefined, true));
+  }
 
-            }
+}
 
-            break;
 
-          }
 
-          case "content_block_start": {
+// 客户端断开后上游请求被中止，响应不会再被读取，只记录日志
+function clientDisconnectedResponse(): Response {
+  console.log("客户端已断开，已停止请求上游");
+  return new Response(null, { status: 499 });
+}
 
-            // 检测是否为thinking块
 
-            if (parsed.content_block?.type === "thinking") {
 
-              hasThinking = true;
+/* ====== 上游 fallback ====== */
 
-            }
+function describeRoute(route: ModelRoute): string {
+  return `${route.provider}/${route.model}`;
+}
 
-            break;
+// 依次尝试候选：同一上游的重试用完后仍是可重试的状态码或连接错误（还没有拿到响应）时换下一个
+// fetch 在收到响应头时返回，之后的流式读取不会再触发切换，已经开始的流不会被重试
+async function fetchWithFallback<T extends { resp: Response }>(
+  candidates: ModelRoute[],
+  attempt: (route: ModelRoute, budget: RetryBudget) => Promise<T>,
+  signal?: AbortSignal,
+): Promise<T & { route: ModelRoute }> {
 
-          }
+  const budget = createRetryBudget(signal);
 
-          case "content_block_delta": {
+  for (let index = 0; ; index++) {
 
-            if (!sentRoleHeader) {
+    const route = candidates[index];
 
-              sentRoleHeader = true;
+    const next = candidates[index + 1];
 
-              await writeChunk(toOpenAIStreamChunkFromDelta(model, responseId, undefined, true));
+    try {
 
-            }
+      const result = await attempt(route, budget);
 
+      if (!next || result.resp.ok || !RETRYABLE_STATUS_CODES.has(result.resp.status) || signal?.aborted) {
+        console.log(`上游提供商: ${describeRoute(route)}${candidates.length > 1 ? ` (候选 ${index + 1}/${candidates.length})` : ""}`);
+        return { ...result, route };
+      }
 
+      console.warn(`${providerLabel(route)} 返回 ${result.resp.status}，切换到 ${describeRoute(next)}`);
 
-            // 处理thinking内容 - 收集并流式输出
+      try {
+        await result.resp.body?.cancel();
+      } catch {}
 
-            if (parsed.delta?.type === "thinking_delta") {
+    } catch (error: any) {
 
-              const thinkingDelta = parsed.delta?.thinking || "";
+      // 请求转换错误与上游无关，直接返回给客户端；客户端断开后也不再换候选
+      if (!next || error instanceof InvalidRequestError || signal?.aborted) throw error;
 
-              reasoningContent += thinkingDelta;
+      console.warn(`${providerLabel(route)} 连接失败 (${error?.message || error})，切换到 ${describeRoute(next)}`);
 
-              // 流式输出thinking内容
-              if (thinkingDelta) {
-                await writeChunk(toOpenAIStreamChunkFromDelta(model, responseId, undefined, false, thinkingDelta));
-              }
+    }
 
-            }
+  }
 
-            // 处理普通文本内容
+}
 
-            else if (parsed.delta?.type === "text_delta") {
+// 同协议的端点（Claude 原生、Responses 原生转发）只能在同协议的候选之间切换
+function sameProtocolCandidates(route: ModelRoute, accepts: (provider: ModelProvider) => boolean): ModelRoute[] {
+  const skipped = route.fallbacks.filter(candidate => !accepts(candidate.provider));
+  if (skipped.length) {
+    console.warn("跳过协议不同的 fallback 候选:", skipped.map(describeRoute).join(", "));
+  }
+  return [route, ...route.fallbacks.filter(candidate => accepts(candidate.provider))];
+}
 
-              const deltaText = parsed.delta?.text || "";
+interface ServedUpstream {
+  provider: string;
+  model: string;
+}
 
-              if (deltaText) {
+// 在响应头上标注实际使用的上游；同一提供商的多个候选靠 x-proxy-model 区分
+function withProxyProvider(resp: Response, served: ServedUpstream | null): Response {
+  if (!served) return resp;
+  const headers = new Headers(resp.headers);
+  headers.set("x-proxy-provider", served.provider);
+  headers.set("x-proxy-model", served.model);
+  headers.set("Access-Control-Expose-Headers", "x-proxy-provider, x-proxy-model");
+  return new Response(resp.body, { status: resp.status, statusText: resp.statusText, headers });
+}
 
-                await writeChunk(toOpenAIStreamChunkFromDelta(model, responseId, deltaText, false));
+// 内部转发（Claude 原生 / Responses 端点复用 Chat Completions）时从响应头取回实际上游
+function servedUpstreamOf(resp: Response): ServedUpstream | null {
+  const provider = resp.headers.get("x-proxy-provider");
+  const model = resp.headers.get("x-proxy-model");
+  return provider && model ? { provider, model } : null;
+}
 
-              }
 
-            }
 
-            break;
+// Claude web_search 工具定义
+interface ClaudeWebSearchTool {
+  type: "web_search_20250305";
+  name: "web_search";
+  max_uses?: number;
+  allowed_domains?: string[];
+  blocked_domains?: string[];
+  user_location?: ClaudeWebSearchUserLocation;
+  cache_control?: ClaudeCacheControl;
+}
 
-          }
+interface ClaudeWebSearchUserLocation {
+  type: "approximate";
+  city?: string;
+  region?: string;
+  country?: string;
+  timezone?: string;
+}
 
-          case "message_delta": {
+const DEFAULT_WEB_SEARCH_MAX_USES = 5;
 
-            if (parsed.usage) {
+function normalizeDomainList(value: any, param: string): string[] | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (!Array.isArray(value) || value.some(domain => typeof domain !== "string" || !domain.trim())) {
+    throw new InvalidRequestError(`Invalid type for '${param}': expected an array of non-empty strings`, param, "invalid_type");
+  }
+  return value.map((domain: string) => domain.trim());
+}
 
-              capturedUsage = {
+// 同时接受 OpenAI 的 {type, approximate: {...}} 和 Claude 的扁平结构
+function convertUserLocationToClaude(location: any): ClaudeWebSearchUserLocation | undefined {
+  if (location === undefined || location === null) return undefined;
+  if (typeof location !== "object") {
+    throw new InvalidRequestError("Invalid type for 'web_search_options.user_location': expected an object", "web_search_options.user_location", "invalid_type");
+  }
+  const source = location.approximate ?? location;
+  const result: ClaudeWebSearchUserLocation = { type: "approximate" };
+  for (const key of ["city", "region", "country", "timezone"] as const) {
+    if (typeof source[key] === "string" && source[key]) result[key] = source[key];
+  }
+  return result;
+}
 
-                prompt_tokens: 0,
+// -search 后缀或请求中出现 web_search_options 时启用 web_search 工具
+function resolveWebSearchTool(openaiReq: OpenAIRequest): ClaudeWebSearchTool | undefined {
 
-                completion_tokens: parsed.usage.output_tokens ?? 0,
+  const options = openaiReq.web_search_options;
 
-                total_tokens: parsed.usage.output_tokens ?? 0,
+  if (!isClaudeSearchModel(openaiReq.model) && (options === undefined || options === null)) return undefined;
 
-              };
+  if (options !== undefined && options !== null && (typeof options !== "object" || Array.isArray(options))) {
+    throw new InvalidRequestError("Invalid type for 'web_search_options': expected an object", "web_search_options", "invalid_type");
+  }
 
-            }
+  const maxUses = options?.max_uses ?? DEFAULT_WEB_SEARCH_MAX_USES;
+  if (!Number.isInteger(maxUses) || maxUses <= 0) {
+    throw new InvalidRequestError("Invalid value for 'web_search_options.max_uses': expected a positive integer", "web_search_options.max_uses");
+  }
 
-            break;
+  const allowedDomains = normalizeDomainList(options?.allowed_domains, "web_search_options.allowed_domains");
+  const blockedDomains = normalizeDomainList(options?.blocked_domains, "web_search_options.blocked_domains");
 
-          }
+  // 上游不允许同时设置白名单和黑名单
+  if (allowedDomains && blockedDomains) {
+    throw new InvalidRequestError(
+      "Invalid value for 'web_search_options': 'allowed_domains' and 'blocked_domains' cannot be used together",
+      "web_search_options.blocked_domains",
+    );
+  }
 
-          case "message_stop": {
+  const userLocation = convertUserLocationToClaude(options?.user_location);
 
-            const doneChunk = toOpenAIStreamDone(model, responseId, capturedUsage, hasThinking ? reasoningContent : undefined);
+  return {
+    type: "web_search_20250305",
+    name: "web_search",
+    max_uses: maxUses,
+    ...(allowedDomains ? { allowed_domains: allowedDomains } : {}),
+    ...(blockedDomains ? { blocked_domains: blockedDomains } : {}),
+    ...(userLocation ? { user_location: userLocation } : {}),
+  };
 
-            await writeChunk(doneChunk);
+}
 
-            break;
 
-          }
 
-          case "error": {
+/* ====== OpenAI/Claude Tools 转换 ====== */
 
-            const errorMsg = parsed.error?.message || JSON.stringify(parsed.error) || "Unknown error";
-
-            const errorType = parsed.error?.type || "api_error";
-
-            console.error("Claude API流式错误:", parsed.error);
-
-            await writeChunk(toOpenAIStreamError(model, responseId, `Claude API Error: ${errorMsg}`, errorType));
-
-            break;
-
-          }
+function convertToolsToClaude(tools: any[]): ClaudeTool[] {
+  const claudeTools: ClaudeTool[] = [];
 
+  for (const tool of tools) {
+    // 检查是否已经是 Claude 格式（有 input_schema）
+    if (tool.input_schema) {
+      claudeTools.push({
+        name: tool.name,
+        description: tool.description || "",
+        input_schema: tool.input_schema
+      });
+    }
+    // 支持 OpenAI 标准格式
+    else if (tool.type === "function" && tool.function) {
+      claudeTools.push({
+        name: tool.function.name,
+        description: tool.function.description || "",
+        input_schema: tool.function.parameters || {
+          type: "object",
+          properties: {},
         }
-
       });
+    }
+    // 支持简化格式（有 name 但没有 input_schema）
+    else if (tool.name && !tool.input_schema) {
+      claudeTools.push({
+        name: tool.name,
+        description: tool.description || "",
+        input_schema: tool.parameters || {
+          type: "object",
+          properties: {},
+        }
+      });
+    }
+  }
 
+  return claudeTools;
+}
 
+// OpenAI tool_choice / parallel_tool_calls -> Claude tool_choice
+// "auto" -> auto, "none" -> none, "required" -> any, {type:"function"} -> tool
+function convertToolChoiceToClaude(
+  toolChoice: any,
+  parallelToolCalls: any,
+  toolNames: string[],
+  thinkingEnabled: boolean,
+): ClaudeToolChoice | undefined {
+  if (parallelToolCalls !== undefined && parallelToolCalls !== null && typeof parallelToolCalls !== "boolean") {
+    throw new InvalidRequestError("Invalid type for 'parallel_tool_calls': expected a boolean", "parallel_tool_calls", "invalid_type");
+  }
 
-      await writer.write(encoder.encode("data: [DONE]\n\n"));
-
-    } catch (e) {
+  const disableParallel = parallelToolCalls === false ? { disable_parallel_tool_use: true } : {};
 
-      console.error("Claude流处理错误:", e);
+  if (toolChoice === undefined || toolChoice === null) {
+    // 未指定 tool_choice 时只在需要关闭并行调用时显式设置 auto
+    return parallelToolCalls === false && toolNames.length > 0
+      ? { type: "auto", disable_parallel_tool_use: true }
+      : undefined;
+  }
 
-      try {
+  let choice: ClaudeToolChoice;
+
+  if (toolChoice === "auto") {
+    choice = { type: "auto", ...disableParallel };
+  } else if (toolChoice === "none") {
+    return { type: "none" };
+  } else if (toolChoice === "required") {
+    choice = { type: "any", ...disableParallel };
+  } else if (typeof toolChoice === "object" && toolChoice.type === "function" && typeof toolChoice.function?.name === "string") {
+    const name = toolChoice.function.name;
+    if (!toolNames.includes(name)) {
+      throw new InvalidRequestError(`Invalid value for 'tool_choice': no function named '${name}' was specified in 'tools'`, "tool_choice");
+    }
+    choice = { type: "tool", name, ...disableParallel };
+  } else {
+    throw new InvalidRequestError(
+      "Invalid value for 'tool_choice': expected 'none', 'auto', 'required' or {\"type\": \"function\", \"function\": {\"name\": ...}}",
+      "tool_choice",
+    );
+  }
 
-        await writeChunk(toOpenAIStreamError(model, responseId, `Stream processing error: ${e}`, "internal_error"));
+  if (toolNames.length === 0) {
+    throw new InvalidRequestError("Invalid value for 'tool_choice': 'tool_choice' is only allowed when 'tools' are specified", "tool_choice");
+  }
 
-        await writer.write(encoder.encode("data: [DONE]\n\n"));
+  // Claude 的 thinking 模式只允许 auto / none，required 和指定函数才需要拒绝
+  if (thinkingEnabled && choice.type !== "auto") {
+    throw new InvalidRequestError(
+      "Invalid value for 'tool_choice': thinking models only support 'auto' or 'none'",
+      "tool_choice",
+    );
+  }
 
-      } catch (writeErr) {
+  return choice;
+}
 
-        console.error("无法写入错误信息:", writeErr);
+/* ====== OpenAI/Responses Tools 转换 ====== */
 
-      }
+// Responses API 的 strict 默认为 true，这里显式沿用 Chat Completions 的默认值 false
+function convertToolsToFactory(tools: any[]): FactoryAIFunctionTool[] {
+  const factoryTools: FactoryAIFunctionTool[] = [];
 
-    } finally {
+  for (const tool of tools) {
+    const fn = tool?.type === "function" && tool.function ? tool.function : tool;
 
-      try {
+    if (!fn || typeof fn.name !== "string" || !fn.name) {
+      throw new InvalidRequestError("Missing required parameter: 'tools[].function.name'", "tools", "missing_required_parameter");
+    }
 
-        await writer.close();
+    factoryTools.push({
+      type: "function",
+      name: fn.name,
+      ...(fn.description ? { description: fn.description } : {}),
+      parameters: fn.parameters || fn.input_schema || { type: "object", properties: {} },
+      strict: fn.strict === true,
+    });
+  }
 
-      } catch {}
+  return factoryTools;
+}
 
-    }
+// OpenAI tool_choice -> Responses tool_choice，字符串值两边一致
+function convertToolChoiceToFactory(toolChoice: any, toolNames: string[]): FactoryAIToolChoice | undefined {
+  if (toolChoice === undefined || toolChoice === null) return undefined;
 
-  })();
+  if (toolChoice === "none") return "none";
 
+  let choice: FactoryAIToolChoice;
 
+  if (toolChoice === "auto" || toolChoice === "required") {
+    choice = toolChoice;
+  } else if (typeof toolChoice === "object" && toolChoice.type === "function" && typeof toolChoice.function?.name === "string") {
+    const name = toolChoice.function.name;
+    if (!toolNames.includes(name)) {
+      throw new InvalidRequestError(`Invalid value for 'tool_choice': no function named '${name}' was specified in 'tools'`, "tool_choice");
+    }
+    choice = { type: "function", name };
+  } else {
+    throw new InvalidRequestError(
+      "Invalid value for 'tool_choice': expected 'none', 'auto', 'required' or {\"type\": \"function\", \"function\": {\"name\": ...}}",
+      "tool_choice",
+    );
+  }
 
-  return new Response(readable, {
+  if (toolNames.length === 0) {
+    throw new InvalidRequestError("Invalid value for 'tool_choice': 'tool_choice' is only allowed when 'tools' are specified", "tool_choice");
+  }
 
-    headers: {
+  return choice;
+}
 
-      "Content-Type": "text/event-stream; charset=utf-8",
+/* ====== OpenAI 通用参数映射 ====== */
 
-      "Cache-Control": "no-cache, no-transform",
+// 各上游转换会处理的 OpenAI 请求字段，其余字段会被丢弃并记录日志
+const CLAUDE_SUPPORTED_PARAMS = new Set([
+  "model", "messages", "stream", "stream_options", "max_tokens", "max_completion_tokens",
+  "temperature", "top_p", "stop", "user", "metadata",
+  "tools", "tool_choice", "parallel_tool_calls",
+  "reasoning", "reasoning_effort", "prompt_caching", "response_format", "citations",
+  "web_search_options",
+]);
 
-      "Connection": "keep-alive",
+const FACTORY_SUPPORTED_PARAMS = new Set([
+  "model", "messages", "stream", "stream_options", "max_tokens", "max_completion_tokens",
+  "top_p", "user", "metadata", "response_format",
+  "tools", "tool_choice", "parallel_tool_calls",
+  "reasoning", "reasoning_effort",
+]);
 
-      "Access-Control-Allow-Origin": "*",
+// 每个请求只输出一条汇总日志，避免上游静默丢弃参数
+function logUnsupportedParams(openaiReq: Record<string, any>, supported: Set<string>, target: string, extra: string[] = []) {
+  const dropped = Object.keys(openaiReq)
+    .filter(key => !supported.has(key) && openaiReq[key] !== undefined && openaiReq[key] !== null)
+    .concat(extra);
+  if (dropped.length > 0) {
+    console.warn(`[${target}] 忽略不支持的参数: ${dropped.join(", ")}`);
+  }
+}
 
-      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+// fallback 候选跨协议时按目标分别记录；在发送前调用一次，不随候选重复输出
+function logUnsupportedRouteParams(openaiReq: OpenAIRequest, candidates: ModelRoute[]) {
+  if (candidates.some(candidate => isAnthropicProvider(candidate.provider))) {
+    // Claude metadata 只支持 user_id，其余键无法传递
+    const droppedParams = Object.keys(openaiReq.metadata ?? {})
+      .filter(key => key !== "user_id")
+      .map(key => `metadata.${key}`);
+
+    // Claude web_search 没有 search_context_size 的对应设置
+    if (openaiReq.web_search_options?.search_context_size !== undefined) {
+      droppedParams.push("web_search_options.search_context_size");
+    }
 
-      "Access-Control-Allow-Headers": CORS_ALLOW_HEADERS,
+    logUnsupportedParams(openaiReq, CLAUDE_SUPPORTED_PARAMS, "Claude", droppedParams);
+  }
 
-    },
+  if (candidates.some(candidate => candidate.provider === "factory")) {
+    logUnsupportedParams(openaiReq, FACTORY_SUPPORTED_PARAMS, "Factory AI");
+  }
+}
 
-  });
+// OpenAI stop 可以是字符串或字符串数组；Claude 不接受空白的停止序列
+function normalizeStopSequences(stop: any): string[] | undefined {
+  if (stop === undefined || stop === null) return undefined;
+  const list = typeof stop === "string" ? [stop] : stop;
+  if (!Array.isArray(list) || list.some(item => typeof item !== "string")) {
+    throw new InvalidRequestError("Invalid type for 'stop': expected a string or an array of strings", "stop", "invalid_type");
+  }
+  const sequences = list.filter((item: string) => item.trim().length > 0);
+  return sequences.length > 0 ? sequences : undefined;
+}
 
+// OpenAI user（或 metadata.user_id）-> 终端用户标识
+function resolveEndUserId(openaiReq: OpenAIRequest): string | undefined {
+  const userId = openaiReq.user ?? openaiReq.metadata?.user_id;
+  return typeof userId === "string" && userId ? userId : undefined;
 }
 
 
 
-/* ====== Factory AI非流聚合 ====== */
+/* ====== 结构化输出（response_format） ====== */
 
-function textFromCompletedResponse(resp: any): string {
+// Claude 没有 response_format，使用强制调用的合成工具承载 JSON 结果，再在响应中还原为 content
+const STRUCTURED_OUTPUT_TOOL_NAME = "json_response";
 
-  try {
+interface StructuredOutputSpec {
 
-    if (!resp?.output || !Array.isArray(resp.output)) return "";
+  toolName: string;
 
-    const texts: string[] = [];
+  schema: Record<string, any>;
 
-    for (const item of resp.output) {
+  strict: boolean;
 
-      if (item?.type === "message" && item?.role === "assistant" && Array.isArray(item?.content)) {
+  description?: string;
 
-        for (const part of item.content) {
+  // Claude 工具的 input 必须是对象：非对象 schema 包装在 value 字段中，返回时再解包
+  wrapped: boolean;
 
-          if (part?.type === "output_text" && typeof part?.text === "string") {
+}
 
-            texts.push(part.text);
+function resolveStructuredOutput(openaiReq: OpenAIRequest): StructuredOutputSpec | undefined {
+  const format = openaiReq.response_format;
+  if (format === undefined || format === null) return undefined;
 
-          }
+  if (typeof format !== "object" || typeof format.type !== "string") {
+    throw new InvalidRequestError("Invalid type for 'response_format': expected an object with a 'type' field", "response_format", "invalid_type");
+  }
 
-        }
+  if (format.type === "text") return undefined;
 
-      }
+  if (format.type === "json_object") {
+    return {
+      toolName: STRUCTURED_OUTPUT_TOOL_NAME,
+      schema: { type: "object", additionalProperties: true },
+      strict: false,
+      wrapped: false,
+    };
+  }
 
+  if (format.type === "json_schema") {
+    const jsonSchema = format.json_schema;
+    if (!jsonSchema || typeof jsonSchema.schema !== "object" || jsonSchema.schema === null) {
+      throw new InvalidRequestError("Missing required parameter: 'response_format.json_schema.schema'", "response_format.json_schema.schema", "missing_required_parameter");
     }
+    const isObjectSchema = jsonSchema.schema.type === "object";
+    return {
+      toolName: STRUCTURED_OUTPUT_TOOL_NAME,
+      schema: isObjectSchema
+        ? jsonSchema.schema
+        : { type: "object", properties: { value: jsonSchema.schema }, required: ["value"] },
+      strict: jsonSchema.strict === true,
+      description: jsonSchema.description,
+      wrapped: !isObjectSchema,
+    };
+  }
 
-    return texts.join("");
+  throw new InvalidRequestError(
+    `Invalid value for 'response_format.type': '${format.type}' (expected 'text', 'json_object' or 'json_schema')`,
+    "response_format.type",
+  );
+}
 
-  } catch {
+function buildStructuredOutputTool(spec: StructuredOutputSpec): ClaudeTool {
+  return {
+    name: spec.toolName,
+    description: spec.description
+      ? `Respond with the final answer as JSON. ${spec.description}`
+      : "Respond with the final answer as JSON matching the input schema.",
+    input_schema: spec.schema as ClaudeTool["input_schema"],
+    ...(spec.strict ? { strict: true } : {}),
+  };
+}
 
-    return "";
+// 合成工具的 input -> OpenAI message.content（JSON 字符串）
+function structuredOutputToContent(spec: StructuredOutputSpec, input: any): string {
+  return JSON.stringify(spec.wrapped ? input?.value ?? null : input ?? {});
+}
 
+// OpenAI response_format -> Responses API text.format
+function convertResponseFormatToFactory(format: any): Record<string, any> | undefined {
+  if (!format || typeof format !== "object") return undefined;
+  if (format.type === "json_object") return { type: "json_object" };
+  if (format.type === "json_schema" && format.json_schema) {
+    const { name, schema, strict, description } = format.json_schema;
+    return {
+      type: "json_schema",
+      name: name || "response",
+      schema,
+      ...(strict !== undefined ? { strict } : {}),
+      ...(description ? { description } : {}),
+    };
   }
-
+  return undefined;
 }
 
 
 
-async function collectFromUpstreamSSE(factoryResp: Response, model: string) {
+/* ====== OpenAI -> Claude 转换 ====== */
 
-  let responseId = `resp_${crypto.randomUUID()}`;
+// OpenAI file 内容块 -> Claude document 块；Claude 只能直接读取 PDF 和纯文本文档
+function convertFilePartToClaude(part: OpenAIFilePart): ClaudeDocumentBlock {
 
-  let usage: any | undefined;
+  const { file_data: fileData, filename, file_id: fileId } = part.file ?? {};
 
-  let finalResponseObj: any | undefined;
+  if (!fileData) {
+    if (fileId) {
+      throw new InvalidRequestError(
+        "Invalid value for 'file.file_id': file references are not supported for this model, send the content in 'file.file_data'",
+        "messages", "unsupported_value",
+      );
+    }
+    throw new InvalidRequestError("Missing required parameter: 'file.file_data'", "messages", "missing_required_parameter");
+  }
 
-  let errorOccurred = false;
+  // 裸 base64 没有 MIME 信息，按 OpenAI 的约定视为 PDF
+  const parsed = parseDataURL(fileData);
+  const mime = parsed ? parsed.mime.toLowerCase() : PDF_MIME;
+  const b64 = parsed ? parsed.b64 : fileData.trim();
+  const title = filename ? { title: filename } : {};
 
-  let errorMessage = "";
+  if (mime !== PDF_MIME && !mime.startsWith("text/")) {
+    throw new InvalidRequestError(
+      `Invalid value for 'file.file_data': unsupported file type '${mime}', only application/pdf and text/plain are supported`,
+      "messages", "unsupported_value",
+    );
+  }
 
-  let errorType = "api_error";
+  // PDF 原样转发也先解码校验，避免无效 base64 变成上游的 500
+  let binary: string;
+  try {
+    binary = atob(b64);
+  } catch {
+    throw new InvalidRequestError("Invalid value for 'file.file_data': expected base64-encoded file content", "messages");
+  }
 
-  let reasoningContent = "";
+  if (mime === PDF_MIME) {
+    return { type: "document", source: { type: "base64", media_type: PDF_MIME, data: b64 }, ...title };
+  }
 
+  const bytes = Uint8Array.from(binary, c => c.charCodeAt(0));
+  return { type: "document", source: { type: "text", media_type: "text/plain", data: new TextDecoder("utf-8").decode(bytes) }, ...title };
 
+}
 
-  await parseSSEStream(factoryResp, ({ data }) => {
 
-    if (!data) return;
 
-    let parsed: any;
+function convertContentPartsToClaude(parts: OpenAIContentPart[]): (ClaudeTextBlock | ClaudeImageBlock | ClaudeDocumentBlock)[] {
 
-    try {
+  const blocks: (ClaudeTextBlock | ClaudeImageBlock | ClaudeDocumentBlock)[] = [];
 
-      parsed = JSON.parse(data);
+  for (const part of parts) {
 
-    } catch {
+    if (part.type === "text") {
 
-      return;
+      blocks.push({ type: "text", text: part.text, ...(part.cache_control ? { cache_control: { type: "ephemeral" as const } } : {}) });
 
-    }
+    } else if (part.type === "image_url") {
 
+      const parsed = parseDataURL(part.image_url.url);
 
+      if (parsed) {
 
-    if (parsed?.response?.id) {
+        blocks.push({
 
-      responseId = parsed.response.id;
+          type: "image",
 
-    }
+          source: { type: "base64", media_type: parsed.mime, data: parsed.b64 },
 
+        });
 
+      } else if (REMOTE_IMAGE_FETCH_CONFIG.mode === "url" && isRemoteImageUrl(part.image_url.url) &&
+                 isImageHostAllowed(part.image_url.url, REMOTE_IMAGE_FETCH_CONFIG)) {
 
-    switch (parsed?.type) {
+        blocks.push({ type: "image", source: { type: "url", url: part.image_url.url } });
 
-      case "response.completed":
+      } else {
 
-        finalResponseObj = parsed.response || finalResponseObj;
+        blocks.push({ type: "text", text: `[image_url] ${part.image_url.url}` });
 
-        usage = parsed.response?.usage || usage;
+      }
 
-        break;
+    } else if (part.type === "file") {
 
-      case "response.reasoning_summary_text.delta":
+      blocks.push(convertFilePartToClaude(part));
 
-        if (typeof parsed.delta === "string") {
+    }
 
-          reasoningContent += parsed.delta;
+  }
 
-        }
+  return blocks;
 
-        break;
+}
 
-      case "response.error":
 
-        errorOccurred = true;
 
-        errorMessage = parsed.error?.message || JSON.stringify(parsed.error) || "Unknown upstream error";
+// OpenAI 的 arguments 是 JSON 字符串，Claude 的 input 必须是对象
+function parseToolArguments(args: string | undefined): any {
+  if (!args) return {};
+  try {
+    const parsed = JSON.parse(args);
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : { value: parsed };
+  } catch {
+    console.warn("工具调用参数不是合法JSON，按原文传递:", args.substring(0, 100));
+    return { raw_arguments: args };
+  }
+}
 
-        errorType = parsed.error?.type || "api_error";
 
-        console.error("Factory AI API错误:", parsed.error);
 
-        break;
+// 只接受结构完整的 thinking 块；签名由上游校验，这里不做修改
+function restoreThinkingBlocks(blocks: any): ClaudeThinkingContentBlock[] {
+
+  if (!Array.isArray(blocks)) return [];
 
+  const restored: ClaudeThinkingContentBlock[] = [];
+
+  for (const block of blocks) {
+    if (block?.type === "thinking" && typeof block.thinking === "string" && typeof block.signature === "string") {
+      restored.push({ type: "thinking", thinking: block.thinking, signature: block.signature });
+    } else if (block?.type === "redacted_thinking" && typeof block.data === "string") {
+      restored.push({ type: "redacted_thinking", data: block.data });
+    } else {
+      console.warn("忽略格式不正确的 thinking_blocks 条目:", JSON.stringify(block)?.substring(0, 100));
     }
+  }
 
-  });
+  return restored;
 
+}
 
 
-  if (errorOccurred) {
 
-    return createErrorResponse(`Factory AI Error: ${errorMessage}`, 500, errorType);
+function convertMessagesToClaude(messages: OpenAIMessage[]): ClaudeMessage[] {
 
-  }
+  const claudeMessages: ClaudeMessage[] = [];
 
+  for (const m of messages) {
 
+    if (m.role === "system") continue;
 
-  const finalText = textFromCompletedResponse(finalResponseObj);
+    // role: "tool" -> user 回合中的 tool_result，连续的工具结果合并到同一个 user 回合
+    if (m.role === "tool") {
 
+      const resultContent = Array.isArray(m.content)
+        ? convertContentPartsToClaude(m.content)
+        : String(m.content ?? "");
 
+      const resultBlock: ClaudeToolResultBlock = {
+        type: "tool_result",
+        tool_use_id: m.tool_call_id ?? "",
+        content: resultContent,
+        ...(m.is_error ? { is_error: true } : {}),
+      };
 
-  const mappedUsage =
+      const last = claudeMessages[claudeMessages.length - 1];
+      const lastIsToolResults = last?.role === "user" && Array.isArray(last.content) &&
+        last.content.length > 0 && last.content.every(block => block.type === "tool_result");
 
-    usage
+      if (lastIsToolResults) {
+        (last.content as ClaudeContentBlock[]).push(resultBlock);
+      } else {
+        claudeMessages.push({ role: "user", content: [resultBlock] });
+      }
+      continue;
+    }
 
-      ? {
+    const role = m.role;
 
-          prompt_tokens: usage.input_tokens ?? 0,
+    // 上一轮的 thinking 块必须原样放在 assistant 回合最前面，否则工具续写时上游签名校验失败
+    const thinkingBlocks = role === "assistant" ? restoreThinkingBlocks(m.thinking_blocks) : [];
 
-          completion_tokens: usage.output_tokens ?? 0,
+    // assistant.tool_calls -> tool_use 块，保留原始 id 以便与 tool_result 对应
+    if (role === "assistant" && Array.isArray(m.tool_calls) && m.tool_calls.length > 0) {
 
-          total_tokens:
+      const blocks: ClaudeContentBlock[] = [...thinkingBlocks];
 
-            (usage.input_tokens ?? 0) + (usage.output_tokens ?? 0),
+      const textBlocks = Array.isArray(m.content)
+        ? convertContentPartsToClaude(m.content)
+        : [{ type: "text" as const, text: String(m.content ?? "") }];
 
-        }
+      // Claude 不接受空文本块
+      for (const block of textBlocks) {
+        if (block.type !== "text" || block.text.trim()) blocks.push(block);
+      }
 
-      : undefined;
+      for (const call of m.tool_calls) {
+        blocks.push({
+          type: "tool_use",
+          id: call.id,
+          name: call.function?.name ?? "",
+          input: parseToolArguments(call.function?.arguments),
+        });
+      }
 
+      claudeMessages.push({ role, content: blocks });
+      continue;
+    }
 
+    if (Array.isArray(m.content)) {
 
-  const openaiResponse = {
+      const blocks: ClaudeContentBlock[] = [...thinkingBlocks, ...convertContentPartsToClaude(m.content)];
 
-    id: `chatcmpl-${responseId}`,
+      if (!blocks.length) blocks.push({ type: "text", text: "" });
 
-    object: "chat.completion",
+      claudeMessages.push({ role, content: blocks });
+      continue;
 
-    created: Math.floor(Date.now() / 1000),
+    }
 
-    model,
+    if (thinkingBlocks.length) {
 
-    choices: [
+      const text = String(m.content ?? "");
 
-      {
+      claudeMessages.push({ role, content: text.trim() ? [...thinkingBlocks, { type: "text", text }] : thinkingBlocks });
+      continue;
 
-        index: 0,
+    }
 
-        message: {
+    claudeMessages.push({
 
-          role: "assistant",
+      role,
 
-          content: finalText,
+      content: String(m.content ?? ""),
 
-          ...(reasoningContent ? { reasoning_content: reasoningContent } : {}),
+    });
 
-        },
+  }
 
-        finish_reason: "stop",
+  return claudeMessages;
 
-      },
+}
 
-    ],
 
-    ...(mappedUsage ? { usage: mappedUsage } : {}),
 
-  };
+// citations 只能按文档开启，这里统一打开（包括 tool_result 中的文档）
+function enableDocumentCitations(messages: ClaudeMessage[]) {
+  for (const msg of messages) {
+    if (!Array.isArray(msg.content)) continue;
+    for (const block of msg.content) {
+      if (block.type === "document") {
+        block.citations = { enabled: true };
+      } else if (block.type === "tool_result" && Array.isArray(block.content)) {
+        for (const inner of block.content) {
+          if (inner.type === "document") inner.citations = { enabled: true };
+        }
+      }
+    }
+  }
+}
 
 
 
-  return new Response(JSON.stringify(openaiResponse), {
+/* ====== OpenAI 路径的提示词缓存策略 ====== */
 
-    headers: {
+// 上游单个请求最多允许 4 个 cache_control 断点
+const MAX_CACHE_BREAKPOINTS = 4;
 
-      "Content-Type": "application/json",
+function countMessageCacheBreakpoints(messages: ClaudeMessage[]): number {
+  let count = 0;
+  for (const msg of messages) {
+    if (!Array.isArray(msg.content)) continue;
+    for (const block of msg.content) {
+      if ("cache_control" in block && block.cache_control) count++;
+    }
+  }
+  return count;
+}
 
-      "Access-Control-Allow-Origin": "*",
+// 在消息的最后一个可缓存块上设置断点（空文本块和 thinking 块不能设置 cache_control）
+function markMessageCacheBreakpoint(msg: ClaudeMessage): boolean {
+  if (typeof msg.content === "string") {
+    if (!msg.content.trim()) return false;
+    msg.content = [{ type: "text", text: msg.content, cache_control: { type: "ephemeral" } }];
+    return true;
+  }
+  for (let i = msg.content.length - 1; i >= 0; i--) {
+    const block = msg.content[i];
+    if (block.type === "thinking" || block.type === "redacted_thinking") continue;
+    if (block.type === "text" && !block.text.trim()) continue;
+    block.cache_control = { type: "ephemeral" };
+    return true;
+  }
+  return false;
+}
 
-      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+// 按前缀顺序分配断点：tools -> 最后一条消息（滚动断点）-> 倒数第2个用户回合
+// system 断点由 buildSystemBlocks 负责，这里只使用剩余的配额
+function applyCacheBreakpoints(
+  tools: (ClaudeTool | ClaudeWebSearchTool)[],
+  messages: ClaudeMessage[],
+  budget: number,
+): number {
+  let used = 0;
+
+  if (budget > used && tools.length > 0) {
+    tools[tools.length - 1].cache_control = { type: "ephemeral" };
+    used++;
+  }
 
-      "Access-Control-Allow-Headers": CORS_ALLOW_HEADERS,
+  // 客户端已经自行设置了消息断点时保留其策略，不再添加历史断点
+  if (countMessageCacheBreakpoints(messages) > 0 || messages.length === 0) return used;
 
-    },
+  const lastIndex = messages.length - 1;
+  if (budget > used && markMessageCacheBreakpoint(messages[lastIndex])) {
+    used++;
+  }
 
-  });
+  // 多轮对话时额外在上一个用户回合设置断点，保证超过回溯窗口时仍能命中
+  if (budget > used && messages.length >= 4) {
+    for (let i = lastIndex - 1; i >= 0; i--) {
+      if (messages[i].role !== "user") continue;
+      if (markMessageCacheBreakpoint(messages[i])) used++;
+      break;
+    }
+  }
 
+  return used;
 }
 
 
 
-/* ====== Factory AI流式 ====== */
+/* ====== Thinking 预算 ====== */
 
-async function pipeStreamToClient(factoryResp: Response, model: string): Promise<Response> {
+const DEFAULT_THINKING_BUDGET = 16384;
 
-  const { readable, writable } = new TransformStream();
+// Claude 要求 budget_tokens 至少为 1024
+const MIN_THINKING_BUDGET = 1024;
 
-  const writer = writable.getWriter();
+const REASONING_EFFORT_BUDGETS: Record<string, number> = {
+  minimal: MIN_THINKING_BUDGET,
+  low: 4096,
+  medium: 16384,
+  high: 32768,
+};
 
-  const encoder = new TextEncoder();
+// 优先级：reasoning.max_tokens > reasoning_effort / reasoning.effort > 模型后缀（-thinking-Nk / -thinking）
+// 返回 undefined 表示不启用 thinking
+function resolveThinkingBudget(openaiReq: OpenAIRequest, model: string): number | undefined {
+  const effortParam = openaiReq.reasoning_effort !== undefined ? "reasoning_effort" : "reasoning.effort";
+  const effort = openaiReq.reasoning_effort ?? openaiReq.reasoning?.effort;
 
+  if (effort === "none") return undefined;
 
+  const explicitBudget = openaiReq.reasoning?.max_tokens;
+  if (explicitBudget !== undefined && explicitBudget !== null) {
+    if (typeof explicitBudget !== "number" || !Number.isFinite(explicitBudget) || explicitBudget <= 0) {
+      throw new InvalidRequestError("Invalid value for 'reasoning.max_tokens': expected a positive integer", "reasoning.max_tokens");
+    }
+    return Math.max(MIN_THINKING_BUDGET, Math.floor(explicitBudget));
+  }
 
-  let responseId = `resp_${crypto.randomUUID()}`;
+  if (effort !== undefined && effort !== null) {
+    const budget = REASONING_EFFORT_BUDGETS[String(effort).toLowerCase()];
+    if (!budget) {
+      throw new InvalidRequestError(
+        `Invalid value for '${effortParam}': expected one of 'none', 'minimal', 'low', 'medium', 'high'`,
+        effortParam,
+      );
+    }
+    return budget;
+  }
 
-  let sentRoleHeader = false;
+  return parseThinkingSuffixBudget(model);
+}
 
-  let capturedUsage: any | undefined;
+// Opus 4.5 output_config.effort 只接受 low / medium / high
+function resolveOpusEffort(openaiReq: OpenAIRequest): string {
+  const effort = String(openaiReq.reasoning_effort ?? openaiReq.reasoning?.effort ?? "").toLowerCase();
+  if (effort === "minimal") return "low";
+  if (effort === "low" || effort === "medium" || effort === "high") return effort;
+  return "high";
+}
 
-  let reasoningContent = "";
 
 
+function toClaudeRequest(openaiReq: OpenAIRequest): ClaudeRequest {
 
-  const writeChunk = async (obj: any) => {
+  const { model, messages, stream } = openaiReq;
 
-    await writer.write(encoder.encode(`data: ${JSON.stringify(obj)}\n\n`));
+  const max_tokens = openaiReq.max_tokens ?? openaiReq.max_completion_tokens;
 
-  };
+  const stopSequences = normalizeStopSequences(openaiReq.stop);
 
+  const endUserId = resolveEndUserId(openaiReq);
 
+  const structuredOutput = resolveStructuredOutput(openaiReq);
 
-  (async () => {
 
-    try {
 
-      await parseSSEStream(factoryResp, async ({ data }) => {
+  const claudeMessages = convertMessagesToClaude(messages);
 
-        if (!data) return;
+  if (openaiReq.citations === true) enableDocumentCitations(claudeMessages);
 
-        let parsed: any;
+  // 扩展字段 prompt_caching: false 可按请求关闭自动缓存
+  const clientCacheBreakpoints = countMessageCacheBreakpoints(claudeMessages);
 
-        try {
+  const enableCache = openaiReq.prompt_caching !== false && clientCacheBreakpoints < MAX_CACHE_BREAKPOINTS;
 
-          parsed = JSON.parse(data);
 
-        } catch {
 
-          return;
+  const thinkingBudget = resolveThinkingBudget(openaiReq, model);
+  const needsThinking = thinkingBudget !== undefined;
+  const webSearchTool = resolveWebSearchTool(openaiReq);
 
-        }
+  const actualModel = normalizeClaudeModel(model);
 
+  
 
+  // thinking模式下需要更多tokens
 
-        if (parsed?.response?.id) {
+  let finalMaxTokens = max_tokens ?? (needsThinking ? thinkingBudget + 4096 : 4096);
 
-          responseId = parsed.response.id;
+  
 
-        }
+  // 确保max_tokens大于budget_tokens：客户端的 max_tokens 视为正文预算，在其上叠加 thinking 预算
 
+  if (needsThinking && finalMaxTokens <= thinkingBudget) {
 
+    console.warn(`max_tokens(${finalMaxTokens}) 不大于 thinking 预算(${thinkingBudget})，自动提升到 ${thinkingBudget + finalMaxTokens}`);
 
-        switch (parsed?.type) {
+    finalMaxTokens = thinkingBudget + finalMaxTokens;
 
-          case "response.output_item.added": {
+  }
 
-            const item = parsed.item;
 
-            const isAssistantMessage = item?.type === "message" && item?.role === "assistant";
 
-            if (!sentRoleHeader && isAssistantMessage) {
+  const thinking: ClaudeThinking | undefined = needsThinking
 
-              sentRoleHeader = true;
+    ? {
 
-              await writeChunk(toOpenAIStreamChunkFromDelta(model, responseId, undefined, true));
+        type: "enabled",
 
-            }
+        budget_tokens: thinkingBudget,
 
-            break;
+      }
 
-          }
+    : undefined;
 
-          case "response.output_text.delta": {
+  // Opus 4.5 的 effort 参数，与原生端点一致默认 high
+  const outputConfig = isOpus45Model(actualModel)
+    ? { effort: resolveOpusEffort(openaiReq) }
+    : undefined;
 
-            if (!sentRoleHeader) {
 
-              sentRoleHeader = true;
+  // thinking模式：只支持temperature=1，不能同时设置top_p
 
-              await writeChunk(toOpenAIStreamChunkFromDelta(model, responseId, undefined, true));
+  // 非thinking模式：可以自由设置temperature和top_p
 
-            }
+  let temperature = needsThinking ? 1 : openaiReq.temperature;
+  let top_p = needsThinking ? undefined : openaiReq.top_p;
 
-            const deltaText = typeof parsed.delta === "string" ? parsed.delta : "";
+  if (!needsThinking && temperature !== undefined && top_p !== undefined) {
+    console.warn("Claude parameter conflict: both temperature and top_p provided; dropping top_p to satisfy upstream.");
+    top_p = undefined;
+  }
 
-            if (deltaText) {
+  // 构建工具列表
+  let tools: (ClaudeTool | ClaudeWebSearchTool)[] = [];
 
-              await writeChunk(toOpenAIStreamChunkFromDelta(model, responseId, deltaText, false));
+  // 如果前端传入了 tools，转换格式
+  if (openaiReq.tools) {
+    tools = convertToolsToClaude(openaiReq.tools);
+  }
 
-            }
+  // 如果启用搜索，添加 web_search 工具
+  if (webSearchTool) {
+    tools.push(webSearchTool);
+    console.log("已添加 web_search 工具");
+  }
 
-            break;
+  let toolChoice = convertToolChoiceToClaude(
+    openaiReq.tool_choice,
+    openaiReq.parallel_tool_calls,
+    tools.map(t => t.name),
+    needsThinking,
+  );
 
-          }
+  const additionalSystem = collectSystemInstructions(messages);
 
-          case "response.reasoning_summary_text.delta": {
+  // response_format：追加合成工具并强制调用；有其他工具时改为 any（必须调用某个工具），再通过系统提示词要求最终调用合成工具
+  // thinking 模式只允许 auto / none，无法保证输出 JSON，直接拒绝
+  if (structuredOutput) {
+    if (toolChoice?.type === "none") {
+      throw new InvalidRequestError("'response_format' cannot be combined with tool_choice 'none' on Claude models", "response_format");
+    }
+    if (needsThinking) {
+      throw new InvalidRequestError(
+        "'response_format' is not supported together with extended thinking on Claude models; remove 'reasoning_effort' / 'reasoning' or the '-thinking' model suffix",
+        "response_format",
+      );
+    }
+    const hasOtherTools = tools.length > 0;
+    tools.push(buildStructuredOutputTool(structuredOutput));
+    if (!hasOtherTools) {
+      toolChoice = { type: "tool", name: structuredOutput.toolName };
+    } else {
+      if (toolChoice === undefined || toolChoice.type === "auto") {
+        toolChoice = { ...toolChoice, type: "any" };
+      }
+      additionalSystem.push(
+        `When you are ready to give your final answer, call the ${structuredOutput.toolName} tool with the answer as its input instead of replying in plain text.`,
+      );
+    }
+  }
 
-            if (!sentRoleHeader) {
+  const system = buildSystemBlocks(additionalSystem, enableCache);
 
-              sentRoleHeader = true;
+  if (enableCache) {
+    // system 已占用 1 个断点
+    applyCacheBreakpoints(tools, claudeMessages, MAX_CACHE_BREAKPOINTS - clientCacheBreakpoints - 1);
+  }
 
-              await writeChunk(toOpenAIStreamChunkFromDelta(model, responseId, undefined, true));
+  return {
 
-            }
+    model: actualModel,
 
-            const reasoningDelta = typeof parsed.delta === "string" ? parsed.delta : "";
+    messages: claudeMessages,
 
-            if (reasoningDelta) {
+    max_tokens: finalMaxTokens,
 
-              reasoningContent += reasoningDelta;
+    stream: stream ?? false,
 
-              await writeChunk(toOpenAIStreamChunkFromDelta(model, responseId, undefined, false, reasoningDelta));
+    system,
 
-            }
+    ...(temperature !== undefined ? { temperature } : {}),
 
-            break;
+    ...(top_p !== undefined ? { top_p } : {}),
 
-          }
+    ...(stopSequences ? { stop_sequences: stopSequences } : {}),
 
-          case "response.completed": {
+    ...(endUserId ? { metadata: { user_id: endUserId } } : {}),
 
-            capturedUsage = parsed.response?.usage || capturedUsage;
+    ...(thinking ? { thinking } : {}),
 
-            await writeChunk(toOpenAIStreamDone(model, responseId, capturedUsage, reasoningContent));
+    ...(outputConfig ? { output_config: outputConfig } : {}),
 
-            break;
+    // 工具列表（包括前端传入的和 web_search）
+    ...(tools.length > 0 ? { tools } : {}),
 
-          }
+    ...(toolChoice ? { tool_choice: toolChoice } : {}),
 
-          case "response.error": {
+  };
 
-            const errorMsg = parsed.error?.message || JSON.stringify(parsed.error) || "Unknown error";
+}
 
-            const errorType = parsed.error?.type || "api_error";
 
-            console.error("Factory AI API流式错误:", parsed.error);
 
-            await writeChunk(toOpenAIStreamError(model, responseId, `Factory AI Error: ${errorMsg}`, errorType));
+function countCacheBreakpoints(claudeReq: ClaudeRequest): number {
+  const systemCount = Array.isArray(claudeReq.system)
+    ? claudeReq.system.filter(block => block.cache_control).length
+    : 0;
+  const toolCount = (claudeReq.tools ?? []).filter(tool => tool.cache_control).length;
+  return systemCount + toolCount + countMessageCacheBreakpoints(claudeReq.messages);
+}
 
-            break;
 
-          }
 
-        }
+// OpenAI 路径发往 Claude 上游（含 Bedrock / Vertex）时使用的 anthropic-beta 头
+function buildClaudeBetaHeader(claudeReq: ClaudeRequest): string {
+  const betas = ["context-1m-2025-08-07"];
+  if (countCacheBreakpoints(claudeReq) > 0) betas.push("prompt-caching-2024-07-31");
+  if (claudeReq.output_config?.effort) betas.push("effort-2025-11-24");
+  if (claudeReq.tools?.some(tool => "strict" in tool && tool.strict)) betas.push("structured-outputs-2025-11-13");
+  return betas.join(",");
+}
+
 
-      });
 
+/* ====== OpenAI -> Factory AI 转换 ====== */
 
+// 只回传上游需要的字段；没有 encrypted_content 的项在 store: false 下无法解析，直接丢弃
+function restoreReasoningItems(items: any): FactoryAIReasoningItem[] {
 
-      await writer.write(encoder.encode("data: [DONE]\n\n"));
+  if (!Array.isArray(items)) return [];
 
-    } catch (e) {
+  const restored: FactoryAIReasoningItem[] = [];
 
-      console.error("流处理错误:", e);
+  for (const item of items) {
+    if (item?.type === "reasoning" && typeof item.encrypted_content === "string") {
+      restored.push({
+        type: "reasoning",
+        ...(typeof item.id === "string" ? { id: item.id } : {}),
+        summary: Array.isArray(item.summary) ? item.summary : [],
+        encrypted_content: item.encrypted_content,
+      });
+    } else {
+      console.warn("忽略格式不正确的 reasoning_items 条目:", JSON.stringify(item)?.substring(0, 100));
+    }
+  }
 
-      try {
+  return restored;
 
-        await writeChunk(toOpenAIStreamError(model, responseId, `Stream processing error: ${e}`, "internal_error"));
+}
 
-        await writer.write(encoder.encode("data: [DONE]\n\n"));
 
-      } catch (writeErr) {
 
-        console.error("无法写入错误信息:", writeErr);
+function toFactoryAIRequest(openaiReq: OpenAIRequest, forceStream: boolean): FactoryAIRequest {
 
-      }
+  const {
 
-    } finally {
+    model,
 
-      try {
+    messages,
 
-        await writer.close();
+    stream,
 
-      } catch {}
+    top_p,
 
-    }
+    reasoning,
 
-  })();
+  } = openaiReq;
 
+  const max_tokens = openaiReq.max_tokens ?? openaiReq.max_completion_tokens;
 
+  const endUserId = resolveEndUserId(openaiReq);
 
-  return new Response(readable, {
+  const textFormat = convertResponseFormatToFactory(openaiReq.response_format);
 
-    headers: {
+  const tools = Array.isArray(openaiReq.tools) ? convertToolsToFactory(openaiReq.tools) : [];
 
-      "Content-Type": "text/event-stream; charset=utf-8",
+  const toolChoice = convertToolChoiceToFactory(openaiReq.tool_choice, tools.map(t => t.name));
 
-      "Cache-Control": "no-cache, no-transform",
+  const parallelToolCalls = openaiReq.parallel_tool_calls ?? true;
 
-      "Connection": "keep-alive",
+  if (typeof parallelToolCalls !== "boolean") {
+    throw new InvalidRequestError("Invalid type for 'parallel_tool_calls': expected a boolean", "parallel_tool_calls", "invalid_type");
+  }
 
-      "Access-Control-Allow-Origin": "*",
 
-      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
 
-      "Access-Control-Allow-Headers": CORS_ALLOW_HEADERS,
+  const systemMessages = collectSystemInstructions(messages);
 
-    },
+  const instructions = [COMPLIANCE_SYSTEM_PROMPT, ...systemMessages].join("\n\n");
 
-  });
 
-}
 
+  const input: FactoryAIInputItem[] = messages
 
+    .filter(m => m.role !== "system")
 
-/* ====== Claude 原生格式流式响应处理 ====== */
+    .flatMap((m): FactoryAIInputItem[] => {
 
-async function pipeClaudeNativeStreamToClient(claudeResp: Response): Promise<Response> {
-  const { readable, writable } = new TransformStream();
-  const writer = writable.getWriter();
-  const encoder = new TextEncoder();
+      const role = m.role;
+
+      // role: "tool" -> function_call_output
+      if (role === "tool") {
+
+        return [{
+          type: "function_call_output",
+          call_id: m.tool_call_id ?? "",
+          output: renderOpenAIContentToText(m.content),
+        }];
 
-  (async () => {
-    try {
-      const reader = claudeResp.body?.getReader();
-      if (!reader) {
-        await writer.close();
-        return;
       }
 
-      const decoder = new TextDecoder();
-      let buffer = "";
+      // assistant.tool_calls -> function_call，文本部分仍作为 assistant 消息保留
+      const functionCalls: FactoryAIFunctionCallItem[] = role === "assistant" && Array.isArray(m.tool_calls)
+        ? m.tool_calls.map(call => ({
+            type: "function_call",
+            call_id: call.id,
+            name: call.function?.name ?? "",
+            arguments: call.function?.arguments ?? "{}",
+          }))
+        : [];
 
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
+      // 上一轮的 reasoning 项位于该回合输出的最前面
+      const reasoningItems = role === "assistant" ? restoreReasoningItems(m.reasoning_items) : [];
 
-        buffer += decoder.decode(value, { stream: true });
+      if (functionCalls.length && !renderOpenAIContentToText(m.content).trim()) {
 
-        // 按完整的SSE事件分割（以双换行符为分隔）
-        const events = buffer.split(/\r?\n\r?\n/);
-        // 保留最后一个不完整的事件
-        buffer = events.pop() || "";
+        return [...reasoningItems, ...functionCalls];
 
-        for (const event of events) {
-          if (event.trim()) {
-            // 写入完整的SSE事件，确保以双换行符结尾
-            await writer.write(encoder.encode(event + "\n\n"));
-          }
-        }
       }
 
-      // 处理缓冲区中剩余的内容
-      if (buffer.trim()) {
-        await writer.write(encoder.encode(buffer + "\n\n"));
-      }
+      const parts: FactoryAIContentPart[] = [];
 
-    } catch (e) {
-      console.error("Claude原生流处理错误:", e);
-    } finally {
-      try {
-        await writer.close();
-      } catch {}
-    }
-  })();
+      if (Array.isArray(m.content)) {
 
-  return new Response(readable, {
-    headers: {
-      "Content-Type": "text/event-stream; charset=utf-8",
-      "Cache-Control": "no-cache, no-transform",
-      "Connection": "keep-alive",
-      "Access-Control-Allow-Origin": "*",
-      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-      "Access-Control-Allow-Headers": CORS_ALLOW_HEADERS,
-    },
-  });
-}
+        for (const part of m.content as OpenAIContentPart[]) {
 
-/* ====== Claude 原生格式处理 ====== */
+          if (part.type === "text") {
 
-async function handleClaudeNativeRequest(req: Request): Promise<Response> {
-  try {
-    // 提取所有可能的认证来源
-    const authHeaderRaw = req.headers.get("Authorization");
-    const authToken = extractAuthToken(authHeaderRaw);
-    const xApiKey = req.headers.get("x-api-key")?.trim() || null;  // 支持 Claude 原生 x-api-key header
-    const proxyHeaderToken = (req.headers.get(PROXY_KEY_HEADER) ?? "").trim();
+            parts.push({
 
-    // 验证代理密钥
-    let matchedProxyKey: string | null = null;
-    if (proxyHeaderToken) {
-      if (PROXY_ACCESS_KEY_SET.has(proxyHeaderToken)) {
-        matchedProxyKey = proxyHeaderToken;
-      } else {
-        return createErrorResponse("Missing or invalid proxy access key", 401, "invalid_proxy_key", "proxy_key");
-      }
-    }
+              type: role === "assistant" ? "output_text" : "input_text",
 
-    // 检查 Authorization token 是否是代理密钥
-    if (!matchedProxyKey && authToken && PROXY_ACCESS_KEY_SET.has(authToken)) {
-      matchedProxyKey = authToken;
-    }
+              text: part.text,
 
-    // 检查 x-api-key 是否是代理密钥
-    if (!matchedProxyKey && xApiKey && PROXY_ACCESS_KEY_SET.has(xApiKey)) {
-      matchedProxyKey = xApiKey;
-    }
+            });
+
+          } else if (part.type === "image_url") {
+
+            parts.push({ type: "input_image", image_url: part.image_url.url });
+
+          } else if (part.type === "file") {
+
+            // Responses API 的 file_data 必须是 data URL，且需要带文件名
+            const { file_data: fileData, filename, file_id: fileId } = part.file ?? {};
+
+            parts.push({
+              type: "input_file",
+              ...(fileId ? { file_id: fileId } : {}),
+              ...(fileData ? {
+                file_data: parseDataURL(fileData) ? fileData : toDataURL(PDF_MIME, fileData.trim()),
+                filename: filename || "document.pdf",
+              } : {}),
+            });
+
+          }
+
+        }
+
+      } else {
+
+        const text = String(m.content ?? "");
+
+        parts.push({
+
+          type: role === "assistant" ? "output_text" : "input_text",
+
+          text,
+
+        });
+
+      }
+
+      if (!parts.length) {
+
+        parts.push({
+
+          type: role === "assistant" ? "output_text" : "input_text",
+
+          text: "",
+
+        });
+
+      }
+
+      return [...reasoningItems, { role, content: parts }, ...functionCalls];
+
+    });
+
+
+
+  // 默认添加reasoning参数
+  let reasoningPayload: Record<string, unknown>;
+
+  if (reasoning && typeof reasoning === "object") {
+    console.log("检测到reasoning参数:", JSON.stringify(reasoning));
+    // max_tokens 只用于 Claude thinking 预算，Responses API 不支持
+    const { max_tokens: _thinkingBudget, ...restReasoning } = reasoning;
+    reasoningPayload = { ...restReasoning };
+  } else if (typeof openaiReq.reasoning_effort === "string") {
+    console.log("检测到reasoning_effort参数:", openaiReq.reasoning_effort);
+    reasoningPayload = { effort: openaiReq.reasoning_effort };
+  } else {
+    console.log("未检测到reasoning参数，使用默认值");
+    reasoningPayload = { effort: "medium" };
+  }
+
+  // 确保有summary字段
+  if (!("summary" in reasoningPayload)) {
+    reasoningPayload["summary"] = "auto";
+  }
+
+  return {
+    model,
+    input,
+    instructions,
+    stream: forceStream ? true : Boolean(stream),
+
+    max_output_tokens: max_tokens ?? 32000,
+
+    top_p: top_p ?? 1.0,
+    ...(endUserId ? { user: endUserId } : {}),
+    ...(openaiReq.metadata && typeof openaiReq.metadata === "object" ? { metadata: openaiReq.metadata } : {}),
+    ...(textFormat ? { text: { format: textFormat } } : {}),
+    store: false,
+    parallel_tool_calls: parallelToolCalls,
+    ...(tools.length ? { tools } : {}),
+    ...(toolChoice ? { tool_choice: toolChoice } : {}),
+    include: ["reasoning.encrypted_content"],
+    reasoning: reasoningPayload,
+  };
+}
+
+
+/* ====== 结束原因映射 ====== */
+
+// Claude stop_reason -> OpenAI finish_reason
+function mapClaudeStopReason(stopReason: string | null | undefined, hasToolCalls: boolean = false): string {
+
+  switch (stopReason) {
+
+    case "max_tokens":
+    case "model_context_window_exceeded":
+      return "length";
+
+    case "tool_use":
+      return "tool_calls";
+
+    case "refusal":
+      return "content_filter";
+
+    case "end_turn":
+    case "stop_sequence":
+    case "pause_turn":
+      return "stop";
+
+    default:
+      return hasToolCalls ? "tool_calls" : "stop";
+
+  }
+
+}
+
+
+
+// Responses API 的 status / incomplete_details.reason -> OpenAI finish_reason
+function mapResponsesFinishReason(resp: any, hasToolCalls: boolean = false): string {
+
+  if (resp?.status === "incomplete") {
+
+    const reason = resp.incomplete_details?.reason;
+
+    if (reason === "content_filter") return "content_filter";
+
+    if (reason === "max_output_tokens") return "length";
+
+  }
+
+  return hasToolCalls ? "tool_calls" : "stop";
+
+}
+
+
+
+/* ====== Usage 映射 ====== */
+
+// Claude 的 input_tokens 不包含缓存读取和缓存写入部分，需要加回 prompt_tokens
+function claudeUsageToOpenAI(usage: any) {
+
+  const cacheReadTokens = usage?.cache_read_input_tokens ?? 0;
+
+  const cacheCreationTokens = usage?.cache_creation_input_tokens ?? 0;
+
+  const promptTokens = (usage?.input_tokens ?? 0) + cacheReadTokens + cacheCreationTokens;
+
+  const completionTokens = usage?.output_tokens ?? 0;
+
+  return {
+
+    prompt_tokens: promptTokens,
+
+    completion_tokens: completionTokens,
+
+    total_tokens: promptTokens + completionTokens,
+
+    prompt_tokens_details: { cached_tokens: cacheReadTokens },
+
+    // 扩展字段：本次写入缓存的 tokens（OpenAI 无对应字段）
+    cache_creation_input_tokens: cacheCreationTokens,
+
+  };
+
+}
+
+
+
+// Responses API 的 input_tokens 已包含 cached_tokens
+function responsesUsageToOpenAI(usage: any) {
+
+  const promptTokens = usage?.input_tokens ?? 0;
+
+  const completionTokens = usage?.output_tokens ?? 0;
+
+  return {
+
+    prompt_tokens: promptTokens,
+
+    completion_tokens: completionTokens,
+
+    total_tokens: usage?.total_tokens ?? promptTokens + completionTokens,
+
+    prompt_tokens_details: { cached_tokens: usage?.input_tokens_details?.cached_tokens ?? 0 },
+
+    // 扩展字段：Responses API 不单独报告缓存写入，保持与 Claude 路径字段一致
+    cache_creation_input_tokens: 0,
+
+  };
+
+}
+
+
+
+/* ====== 引用映射 ====== */
+
+// Claude 文本块上的 citations -> OpenAI annotations，索引指向拼接后的 content
+// 文档引用在 OpenAI 中没有对应类型，使用扩展的 file_citation 并保留页码/字符位置
+function claudeCitationToAnnotation(citation: any, startIndex: number, endIndex: number): any | null {
+
+  switch (citation?.type) {
+
+    case "page_location":
+    case "char_location":
+    case "content_block_location": {
+      const { type, ...location } = citation;
+      return {
+        type: "file_citation",
+        file_citation: { start_index: startIndex, end_index: endIndex, location_type: type, ...location },
+      };
+    }
+
+    // web_search 结果引用与 OpenAI 搜索模型的 url_citation 一致
+    case "web_search_result_location":
+      return {
+        type: "url_citation",
+        url_citation: { start_index: startIndex, end_index: endIndex, url: citation.url, title: citation.title ?? "" },
+      };
+
+    default:
+      return null;
+
+  }
+
+}
+
+
+
+function claudeCitationsToAnnotations(citations: any[] | undefined, startIndex: number, endIndex: number): any[] {
+
+  if (!Array.isArray(citations)) return [];
+
+  return citations
+    .map(citation => claudeCitationToAnnotation(citation, startIndex, endIndex))
+    .filter(annotation => annotation !== null);
+
+}
+
+
+
+/* ====== Factory AI -> OpenAI 流式chunk 转换 ====== */
+
+// 客户端的 stream_options 等流式转换选项
+interface OpenAIStreamOptions {
+
+  // stream_options.include_usage：在结束前单独发送 choices 为空的 usage chunk
+  includeUsage?: boolean;
+
+  // response_format 在 Claude 上游使用的合成工具，其参数作为 content 输出
+  structuredOutput?: StructuredOutputSpec;
+
+}
+
+
+
+function getOpenAIStreamOptions(openaiReq: OpenAIRequest): OpenAIStreamOptions {
+
+  return {
+
+    includeUsage: Boolean(openaiReq.stream_options?.include_usage),
+
+    structuredOutput: resolveStructuredOutput(openaiReq),
+
+  };
+
+}
+
+function toOpenAIStreamChunkFromDelta(model: string, id: string, contentDelta?: string, withRole = false, reasoningDelta?: string) {
+
+  const delta: Record<string, unknown> = {};
+
+  if (withRole) delta.role = "assistant";
+
+  if (contentDelta !== undefined) delta.content = contentDelta;
+
+  if (reasoningDelta !== undefined) (delta as any).reasoning_content = reasoningDelta;
+
+
+
+  return {
+
+    id: `chatcmpl-${id}`,
+
+    object: "chat.completion.chunk",
+
+    created: Math.floor(Date.now() / 1000),
+
+    model,
+
+    choices: [
+
+      {
+
+        index: 0,
+
+        delta,
+
+        finish_reason: null,
+
+      },
+
+    ],
+
+  };
+
+}
+
+
+
+// 流式工具调用增量：首个分片携带 id/name，后续分片只携带 arguments 片段
+function toOpenAIStreamToolCallChunk(
+  model: string,
+  id: string,
+  toolIndex: number,
+  argumentsDelta: string,
+  start?: { id: string; name: string },
+) {
+
+  const toolCallDelta: Record<string, unknown> = { index: toolIndex };
+
+  if (start) {
+    toolCallDelta.id = start.id;
+    toolCallDelta.type = "function";
+    toolCallDelta.function = { name: start.name, arguments: argumentsDelta };
+  } else {
+    toolCallDelta.function = { arguments: argumentsDelta };
+  }
+
+  return {
+
+    id: `chatcmpl-${id}`,
+
+    object: "chat.completion.chunk",
+
+    created: Math.floor(Date.now() / 1000),
+
+    model,
+
+    choices: [
+
+      {
+
+        index: 0,
+
+        delta: { tool_calls: [toolCallDelta] },
+
+        finish_reason: null,
+
+      },
+
+    ],
+
+  };
+
+}
+
+
+
+function toOpenAIStreamDone(model: string, id: string, usage?: any, reasoningContent?: string, finishReason: string = "stop") {
+
+  const chunk: any = {
+
+    id: `chatcmpl-${id}`,
+
+    object: "chat.completion.chunk",
+
+    created: Math.floor(Date.now() / 1000),
+
+    model,
+
+    choices: [
+
+      {
+
+        index: 0,
+
+        delta: {},
+
+        finish_reason: finishReason,
+
+      },
+
+    ],
+
+    usage,
+
+  };
+
+  if (reasoningContent) {
+
+    (chunk.choices[0] as any).reasoning_content = reasoningContent;
+
+  }
+
+  return chunk;
+
+}
+
+
+
+// 扩展 delta（annotations、thinking_blocks、reasoning_items）：每个分片携带完整的条目，客户端按顺序追加即可
+function toOpenAIStreamDeltaChunk(model: string, id: string, delta: Record<string, unknown>) {
+
+  return {
+
+    id: `chatcmpl-${id}`,
+
+    object: "chat.completion.chunk",
+
+    created: Math.floor(Date.now() / 1000),
+
+    model,
+
+    choices: [
+
+      {
+
+        index: 0,
+
+        delta,
+
+        finish_reason: null,
+
+      },
+
+    ],
+
+  };
+
+}
+
+
+
+// stream_options.include_usage 要求的最终 usage chunk（choices 为空数组）
+function toOpenAIStreamUsageChunk(model: string, id: string, usage: any) {
+
+  return {
+
+    id: `chatcmpl-${id}`,
+
+    object: "chat.completion.chunk",
+
+    created: Math.floor(Date.now() / 1000),
+
+    model,
+
+    choices: [],
+
+    usage: usage ?? null,
+
+  };
+
+}
+
+
+
+function toOpenAIStreamError(model: string, id: string, errorMessage: string, errorType: string = "api_error") {
+
+  return {
+
+    id: `chatcmpl-${id}`,
+
+    object: "chat.completion.chunk",
+
+    created: Math.floor(Date.now() / 1000),
+
+    model,
+
+    choices: [
+
+      {
+
+        index: 0,
+
+        delta: {},
+
+        finish_reason: "error",
+
+      },
+
+    ],
+
+    error: {
+
+      message: errorMessage,
+
+      type: errorType,
+
+    },
+
+  };
+
+}
+
+
+
+/* ====== Claude非流式响应 -> OpenAI格式 ====== */
+
+function claudeToOpenAINonStream(claudeResp: any, model: string, structuredOutput?: StructuredOutputSpec) {
+
+  // 提取主要内容和思维链内容
+
+  let content = "";
+
+  let reasoningContent = "";
+
+  const toolCalls: OpenAIToolCall[] = [];
+
+  let annotations: any[] = [];
+
+  const thinkingBlocks: ClaudeThinkingContentBlock[] = [];
+
+  // response_format 合成工具的结果（JSON 字符串）
+  let structuredContent: string | undefined;
+
+
+
+  if (Array.isArray(claudeResp.content)) {
+
+    for (const block of claudeResp.content) {
+
+      if (block.type === "text") {
+
+        const startIndex = content.length;
+
+        content += block.text || "";
+
+        annotations.push(...claudeCitationsToAnnotations(block.citations, startIndex, content.length));
+
+      } else if (block.type === "thinking") {
+
+        reasoningContent += block.thinking || "";
+
+        thinkingBlocks.push({ type: "thinking", thinking: block.thinking || "", signature: block.signature || "" });
+
+      } else if (block.type === "redacted_thinking") {
+
+        thinkingBlocks.push({ type: "redacted_thinking", data: block.data || "" });
+
+      } else if (block.type === "tool_use" && structuredOutput && block.name === structuredOutput.toolName) {
+
+        structuredContent = structuredOutputToContent(structuredOutput, block.input);
+
+      } else if (block.type === "tool_use") {
+
+        // Claude tool_use -> OpenAI tool_calls，arguments 必须是 JSON 字符串
+        toolCalls.push({
+          id: block.id,
+          type: "function",
+          function: {
+            name: block.name,
+            arguments: JSON.stringify(block.input ?? {}),
+          },
+        });
+
+      }
+
+    }
+
+  }
+
+
+
+  // 结构化输出只返回 JSON，丢弃调用工具前的说明文字
+  if (structuredContent !== undefined) {
+
+    content = structuredContent;
+
+    annotations = [];
+
+  }
+
+  const usage = claudeResp.usage ? claudeUsageToOpenAI(claudeResp.usage) : undefined;
+
+  // 只调用了合成工具时上游 stop_reason 为 tool_use，对客户端而言是正常结束
+  const finishReason = structuredContent !== undefined && toolCalls.length === 0
+    ? "stop"
+    : mapClaudeStopReason(claudeResp.stop_reason, toolCalls.length > 0);
+
+
+  return {
+
+    id: `chatcmpl-${claudeResp.id || crypto.randomUUID()}`,
+
+    object: "chat.completion",
+
+    created: Math.floor(Date.now() / 1000),
+
+    model,
+
+    choices: [
+
+      {
+
+        index: 0,
+
+        message: {
+
+          role: "assistant",
+
+          // 只返回正常内容；纯工具调用时按 OpenAI 约定返回 null
+          content: toolCalls.length && !content ? null : content,
+
+          ...(reasoningContent ? { reasoning_content: reasoningContent } : {}), // 思维链单独字段
+
+          ...(thinkingBlocks.length ? { thinking_blocks: thinkingBlocks } : {}),
+
+          ...(toolCalls.length ? { tool_calls: toolCalls } : {}),
+
+          ...(annotations.length ? { annotations } : {}),
+
+        },
+
+        finish_reason: finishReason,
+
+        // 扩展字段：命中的停止序列
+        ...(claudeResp.stop_sequence ? { stop_sequence: claudeResp.stop_sequence } : {}),
+
+      },
+
+    ],
+
+    ...(usage ? { usage } : {}),
+
+  };
+
+}
+
+
+
+/* ====== Claude流式 -> OpenAI SSE ====== */
+
+async function pipeClaudeStreamToClient(claudeResp: Response, model: string, options: OpenAIStreamOptions = {}): Promise<Response> {
+
+  const { readable, writable } = new TransformStream();
+
+  const writer = writable.getWriter();
+
+  const encoder = new TextEncoder();
+
+
+
+  let responseId = `msg_${crypto.randomUUID()}`;
+
+  let sentRoleHeader = false;
+
+  let capturedUsage: any | undefined;
+
+  // message_start 携带 input_tokens，message_delta 携带累计的 output_tokens
+  const claudeUsage: Record<string, number> = {};
+
+  let reasoningContent = "";
+
+  let hasThinking = false;
+
+  // Claude content block index -> OpenAI tool_calls index
+  const toolIndexByBlock = new Map<number, number>();
+
+  let stopReason: string | undefined;
+
+  let stopSequence: string | undefined;
+
+  // response_format 合成工具所在的 content block；包装过的 schema 需要缓冲后解包
+  let structuredBlockIndex: number | undefined;
+
+  let structuredBuffer = "";
+
+  // response_format 时正文先缓冲：调用了合成工具就丢弃（与非流式一致），没有调用才在结束时补发
+  const heldTextChunks: any[] = [];
+
+  // 已输出正文的长度，以及带引用的文本块：block index -> 起始位置和收集到的 citations
+  let contentLength = 0;
+
+  const textBlockCitations = new Map<number, { startIndex: number; citations: any[] }>();
+
+  // thinking 块的完整文本，收到 signature_delta 时连同签名一起下发
+  const thinkingTextByBlock = new Map<number, string>();
+
+
+
+  const writeChunk = async (obj: any) => {
+
+    await writer.write(encoder.encode(`data: ${JSON.stringify(obj)}\n\n`));
+
+  };
+
+  const writeTextChunk = async (obj: any) => {
+
+    if (options.structuredOutput) {
+      heldTextChunks.push(obj);
+      return;
+    }
+
+    await writeChunk(obj);
+
+  };
+
+
+
+  (async () => {
+
+    try {
+
+      await parseSSEStream(claudeResp, async ({ data }) => {
+
+        if (!data) return;
+
+        let parsed: any;
+
+        try {
+
+          parsed = JSON.parse(data);
+
+        } catch {
+
+          return;
+
+        }
+
+
+
+        switch (parsed?.type) {
+
+          case "message_start": {
+
+            responseId = parsed.message?.id || responseId;
+
+            if (parsed.message?.usage) {
+
+              Object.assign(claudeUsage, parsed.message.usage);
+
+              capturedUsage = claudeUsageToOpenAI(claudeUsage);
+
+            }
+
+            if (!sentRoleHeader) {
+
+              sentRoleHeader = true;
+
+              await writeChunk(toOpenAIStreamChunkFromDelta(model, responseId, undefined, true));
+
+            }
+
+            break;
+
+          }
+
+          case "content_block_start": {
+
+            // 检测是否为thinking块
+
+            if (parsed.content_block?.type === "thinking") {
+
+              hasThinking = true;
+
+              thinkingTextByBlock.set(parsed.index, parsed.content_block.thinking || "");
+
+            }
+
+            // redacted_thinking 没有增量，块开始时即可下发
+            else if (parsed.content_block?.type === "redacted_thinking") {
+
+              if (!sentRoleHeader) {
+                sentRoleHeader = true;
+                await writeChunk(toOpenAIStreamChunkFromDelta(model, responseId, undefined, true));
+              }
+
+              await writeChunk(toOpenAIStreamDeltaChunk(model, responseId, {
+                thinking_blocks: [{ type: "redacted_thinking", data: parsed.content_block.data || "" }],
+              }));
+
+            }
+
+            else if (parsed.content_block?.type === "text") {
+
+              textBlockCitations.set(parsed.index, {
+                startIndex: contentLength,
+                citations: Array.isArray(parsed.content_block.citations) ? [...parsed.content_block.citations] : [],
+              });
+
+            }
+
+            // response_format 合成工具：参数片段作为正文输出，不作为 tool_calls
+            else if (parsed.content_block?.type === "tool_use" && parsed.content_block.name === options.structuredOutput?.toolName) {
+
+              structuredBlockIndex = parsed.index;
+
+            }
+
+            // 工具调用块：按出现顺序分配 tool_calls 的 index，先发出 id 和 name
+            else if (parsed.content_block?.type === "tool_use") {
+
+              if (!sentRoleHeader) {
+                sentRoleHeader = true;
+                await writeChunk(toOpenAIStreamChunkFromDelta(model, responseId, undefined, true));
+              }
+
+              const toolIndex = toolIndexByBlock.size;
+              toolIndexByBlock.set(parsed.index, toolIndex);
+
+              await writeChunk(toOpenAIStreamToolCallChunk(model, responseId, toolIndex, "", {
+                id: parsed.content_block.id,
+                name: parsed.content_block.name,
+              }));
+
+            }
+
+            break;
+
+          }
+
+          case "content_block_delta": {
+
+            if (!sentRoleHeader) {
+
+              sentRoleHeader = true;
+
+              await writeChunk(toOpenAIStreamChunkFromDelta(model, responseId, undefined, true));
+
+            }
+
+
+
+            // 处理thinking内容 - 收集并流式输出
+
+            if (parsed.delta?.type === "thinking_delta") {
+
+              const thinkingDelta = parsed.delta?.thinking || "";
+
+              reasoningContent += thinkingDelta;
+
+              thinkingTextByBlock.set(parsed.index, (thinkingTextByBlock.get(parsed.index) ?? "") + thinkingDelta);
+
+              // 流式输出thinking内容
+              if (thinkingDelta) {
+                await writeChunk(toOpenAIStreamChunkFromDelta(model, responseId, undefined, false, thinkingDelta));
+              }
+
+            }
+
+            // 处理普通文本内容
+
+            else if (parsed.delta?.type === "text_delta") {
+
+              const deltaText = parsed.delta?.text || "";
+
+              if (deltaText) {
+
+                contentLength += deltaText.length;
+
+                await writeTextChunk(toOpenAIStreamChunkFromDelta(model, responseId, deltaText, false));
+
+              }
+
+            }
+
+            // thinking 块的签名：下发完整块供客户端下一轮原样回传
+            else if (parsed.delta?.type === "signature_delta") {
+
+              await writeChunk(toOpenAIStreamDeltaChunk(model, responseId, {
+                thinking_blocks: [{
+                  type: "thinking",
+                  thinking: thinkingTextByBlock.get(parsed.index) ?? "",
+                  signature: parsed.delta.signature || "",
+                }],
+              }));
+
+              thinkingTextByBlock.delete(parsed.index);
+
+            }
+
+            // 处理引用：文本块结束时统一下发
+            else if (parsed.delta?.type === "citations_delta") {
+
+              const entry = textBlockCitations.get(parsed.index);
+
+              if (entry && parsed.delta.citation) entry.citations.push(parsed.delta.citation);
+
+            }
+
+            // 处理结构化输出的 JSON 片段
+            else if (parsed.delta?.type === "input_json_delta" && parsed.index === structuredBlockIndex) {
+
+              const partialJson = parsed.delta?.partial_json || "";
+
+              if (options.structuredOutput?.wrapped) {
+                structuredBuffer += partialJson;
+              } else if (partialJson) {
+                await writeChunk(toOpenAIStreamChunkFromDelta(model, responseId, partialJson, false));
+              }
+
+            }
+
+            // 处理工具调用参数片段
+            else if (parsed.delta?.type === "input_json_delta") {
+
+              const toolIndex = toolIndexByBlock.get(parsed.index);
+              const partialJson = parsed.delta?.partial_json || "";
+
+              if (toolIndex !== undefined && partialJson) {
+                await writeChunk(toOpenAIStreamToolCallChunk(model, responseId, toolIndex, partialJson));
+              }
+
+            }
+
+            break;
+
+          }
+
+          case "content_block_stop": {
+
+            const citationEntry = textBlockCitations.get(parsed.index);
+
+            if (citationEntry) {
+
+              textBlockCitations.delete(parsed.index);
+
+              const annotations = claudeCitationsToAnnotations(citationEntry.citations, citationEntry.startIndex, contentLength);
+
+              if (annotations.length) {
+                // 文本块结束时一次性下发该块的引用，索引与已输出的 content 对齐
+                await writeTextChunk(toOpenAIStreamDeltaChunk(model, responseId, { annotations }));
+              }
+
+            }
+
+            // 包装过的 schema：块结束后解包 value 再一次性输出
+            if (parsed.index === structuredBlockIndex && options.structuredOutput?.wrapped) {
+
+              let input: any = {};
+
+              try {
+                input = JSON.parse(structuredBuffer || "{}");
+              } catch {
+                console.warn("结构化输出JSON解析失败:", structuredBuffer.substring(0, 100));
+              }
+
+              await writeChunk(toOpenAIStreamChunkFromDelta(model, responseId, structuredOutputToContent(options.structuredOutput, input), false));
+
+            }
+
+            break;
+
+          }
+
+          case "message_delta": {
+
+            stopReason = parsed.delta?.stop_reason ?? stopReason;
+
+            stopSequence = parsed.delta?.stop_sequence ?? stopSequence;
+
+            if (parsed.usage) {
+
+              for (const [key, value] of Object.entries(parsed.usage)) {
+
+                if (typeof value === "number") claudeUsage[key] = value;
+
+              }
+
+              capturedUsage = claudeUsageToOpenAI(claudeUsage);
+
+            }
+
+            break;
+
+          }
+
+          case "message_stop": {
+
+            if (structuredBlockIndex === undefined) {
+              for (const chunk of heldTextChunks) await writeChunk(chunk);
+            }
+
+            const doneChunk = toOpenAIStreamDone(
+              model,
+              responseId,
+              options.includeUsage ? undefined : capturedUsage,
+              hasThinking ? reasoningContent : undefined,
+              structuredBlockIndex !== undefined && toolIndexByBlock.size === 0
+                ? "stop"
+                : mapClaudeStopReason(stopReason, toolIndexByBlock.size > 0),
+            );
+
+            if (stopSequence) {
+
+              doneChunk.choices[0].stop_sequence = stopSequence;
+
+            }
+
+            await writeChunk(doneChunk);
+
+            if (options.includeUsage) {
+
+              await writeChunk(toOpenAIStreamUsageChunk(model, responseId, capturedUsage));
+
+            }
+
+            break;
+
+          }
+
+          case "error": {
+
+            const errorMsg = parsed.error?.message || JSON.stringify(parsed.error) || "Unknown error";
+
+            const errorType = parsed.error?.type || "api_error";
+
+            console.error("Claude API流式错误:", parsed.error);
+
+            await writeChunk(toOpenAIStreamError(model, responseId, `Claude API Error: ${errorMsg}`, errorType));
+
+            break;
+
+          }
+
+        }
+
+      });
+
+
+
+      await writer.write(encoder.encode("data: [DONE]\n\n"));
+
+    } catch (e) {
+
+      console.error("Claude流处理错误:", e);
+
+      try {
+
+        await writeChunk(toOpenAIStreamError(model, responseId, `Stream processing error: ${e}`, "internal_error"));
+
+        await writer.write(encoder.encode("data: [DONE]\n\n"));
+
+      } catch (writeErr) {
+
+        console.error("无法写入错误信息:", writeErr);
+
+      }
+
+    } finally {
+
+      try {
+
+        await writer.close();
+
+      } catch {}
+
+    }
+
+  })();
+
+
+
+  return new Response(readable, {
+
+    headers: {
+
+      "Content-Type": "text/event-stream; charset=utf-8",
+
+      "Cache-Control": "no-cache, no-transform",
+
+      "Connection": "keep-alive",
+
+      "Access-Control-Allow-Origin": "*",
+
+      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+
+      "Access-Control-Allow-Headers": CORS_ALLOW_HEADERS,
+
+    },
+
+  });
+
+}
+
+
+
+/* ====== Factory AI非流聚合 ====== */
+
+// function_call 输出项 -> OpenAI tool_calls，call_id 作为 tool_call id 供下一轮 function_call_output 引用
+function toolCallsFromCompletedResponse(resp: any): OpenAIToolCall[] {
+
+  if (!Array.isArray(resp?.output)) return [];
+
+  return resp.output
+    .filter((item: any) => item?.type === "function_call")
+    .map((item: any): OpenAIToolCall => ({
+      id: item.call_id || item.id,
+      type: "function",
+      function: { name: item.name || "", arguments: item.arguments || "{}" },
+    }));
+
+}
+
+
+
+// reasoning 输出项原样交给客户端（encrypted_content 不可解读，仅用于下一轮回传）
+function reasoningItemsFromCompletedResponse(resp: any): FactoryAIReasoningItem[] {
+
+  if (!Array.isArray(resp?.output)) return [];
+
+  return resp.output.filter((item: any) => item?.type === "reasoning" && typeof item.encrypted_content === "string");
+
+}
+
+
+
+function textFromCompletedResponse(resp: any): string {
+
+  try {
+
+    if (!resp?.output || !Array.isArray(resp.output)) return "";
+
+    const texts: string[] = [];
+
+    for (const item of resp.output) {
+
+      if (item?.type === "message" && item?.role === "assistant" && Array.isArray(item?.content)) {
+
+        for (const part of item.content) {
+
+          if (part?.type === "output_text" && typeof part?.text === "string") {
+
+            texts.push(part.text);
+
+          }
+
+        }
+
+      }
+
+    }
+
+    return texts.join("");
+
+  } catch {
+
+    return "";
+
+  }
+
+}
+
+
+
+async function collectFromUpstreamSSE(factoryResp: Response, model: string) {
+
+  let responseId = `resp_${crypto.randomUUID()}`;
+
+  let usage: any | undefined;
+
+  let finalResponseObj: any | undefined;
+
+  let errorOccurred = false;
+
+  let errorMessage = "";
+
+  let errorType = "api_error";
+
+  let reasoningContent = "";
+
+
+
+  await parseSSEStream(factoryResp, ({ data }) => {
+
+    if (!data) return;
+
+    let parsed: any;
+
+    try {
+
+      parsed = JSON.parse(data);
+
+    } catch {
+
+      return;
+
+    }
+
+
+
+    if (parsed?.response?.id) {
+
+      responseId = parsed.response.id;
+
+    }
+
+
+
+    switch (parsed?.type) {
+
+      case "response.completed":
+
+      case "response.incomplete":
+
+        finalResponseObj = parsed.response || finalResponseObj;
+
+        usage = parsed.response?.usage || usage;
+
+        break;
+
+      case "response.reasoning_summary_text.delta":
+
+        if (typeof parsed.delta === "string") {
+
+          reasoningContent += parsed.delta;
+
+        }
+
+        break;
+
+      case "response.error":
+
+        errorOccurred = true;
+
+        errorMessage = parsed.error?.message || JSON.stringify(parsed.error) || "Unknown upstream error";
+
+        errorType = parsed.error?.type || "api_error";
+
+        console.error("Factory AI API错误:", parsed.error);
+
+        break;
+
+    }
+
+  });
+
+
+
+  if (errorOccurred) {
+
+    return createErrorResponse(`Factory AI Error: ${errorMessage}`, 500, errorType);
+
+  }
+
+
+
+  const finalText = textFromCompletedResponse(finalResponseObj);
+
+  const toolCalls = toolCallsFromCompletedResponse(finalResponseObj);
+
+  const reasoningItems = reasoningItemsFromCompletedResponse(finalResponseObj);
+
+
+
+  const mappedUsage = usage ? responsesUsageToOpenAI(usage) : undefined;
+
+
+
+  const openaiResponse = {
+
+    id: `chatcmpl-${responseId}`,
+
+    object: "chat.completion",
+
+    created: Math.floor(Date.now() / 1000),
+
+    model,
+
+    choices: [
+
+      {
+
+        index: 0,
+
+        message: {
+
+          role: "assistant",
+
+          content: toolCalls.length && !finalText ? null : finalText,
+
+          ...(reasoningContent ? { reasoning_content: reasoningContent } : {}),
+
+          ...(toolCalls.length ? { tool_calls: toolCalls } : {}),
+
+          ...(reasoningItems.length ? { reasoning_items: reasoningItems } : {}),
+
+        },
+
+        finish_reason: mapResponsesFinishReason(finalResponseObj, toolCalls.length > 0),
+
+      },
+
+    ],
+
+    ...(mappedUsage ? { usage: mappedUsage } : {}),
+
+  };
+
+
+
+  return new Response(JSON.stringify(openaiResponse), {
+
+    headers: {
+
+      "Content-Type": "application/json",
+
+      "Access-Control-Allow-Origin": "*",
+
+      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+
+      "Access-Control-Allow-Headers": CORS_ALLOW_HEADERS,
+
+    },
+
+  });
+
+}
+
+
+
+/* ====== Factory AI流式 ====== */
+
+async function pipeStreamToClient(factoryResp: Response, model: string, options: OpenAIStreamOptions = {}): Promise<Response> {
+
+  const { readable, writable } = new TransformStream();
+
+  const writer = writable.getWriter();
+
+  const encoder = new TextEncoder();
+
+
+
+  let responseId = `resp_${crypto.randomUUID()}`;
+
+  let sentRoleHeader = false;
+
+  let capturedUsage: any | undefined;
+
+  let reasoningContent = "";
+
+  // function_call 输出项 id -> OpenAI tool_calls index 及已下发的参数
+  const toolCallsByItem = new Map<string, { index: number; streamedArguments: string }>();
+
+
+
+  const writeChunk = async (obj: any) => {
+
+    await writer.write(encoder.encode(`data: ${JSON.stringify(obj)}\n\n`));
+
+  };
+
+
+
+  (async () => {
+
+    try {
+
+      await parseSSEStream(factoryResp, async ({ data }) => {
+
+        if (!data) return;
+
+        let parsed: any;
+
+        try {
+
+          parsed = JSON.parse(data);
+
+        } catch {
+
+          return;
+
+        }
+
+
+
+        if (parsed?.response?.id) {
+
+          responseId = parsed.response.id;
+
+        }
+
+
+
+        switch (parsed?.type) {
+
+          case "response.output_item.added": {
+
+            const item = parsed.item;
+
+            const isAssistantMessage = item?.type === "message" && item?.role === "assistant";
+
+            const isFunctionCall = item?.type === "function_call";
+
+            if (!sentRoleHeader && (isAssistantMessage || isFunctionCall)) {
+
+              sentRoleHeader = true;
+
+              await writeChunk(toOpenAIStreamChunkFromDelta(model, responseId, undefined, true));
+
+            }
+
+            // 工具调用项：按出现顺序分配 tool_calls 的 index，先发出 id 和 name
+            if (isFunctionCall) {
+
+              const toolIndex = toolCallsByItem.size;
+              const initialArguments = typeof item.arguments === "string" ? item.arguments : "";
+
+              toolCallsByItem.set(item.id, { index: toolIndex, streamedArguments: initialArguments });
+
+              await writeChunk(toOpenAIStreamToolCallChunk(model, responseId, toolIndex, initialArguments, {
+                id: item.call_id || item.id,
+                name: item.name || "",
+              }));
+
+            }
+
+            break;
+
+          }
+
+          case "response.function_call_arguments.delta": {
+
+            const toolCall = toolCallsByItem.get(parsed.item_id);
+
+            const argumentsDelta = typeof parsed.delta === "string" ? parsed.delta : "";
+
+            if (toolCall && argumentsDelta) {
+
+              toolCall.streamedArguments += argumentsDelta;
+
+              await writeChunk(toOpenAIStreamToolCallChunk(model, responseId, toolCall.index, argumentsDelta));
+
+            }
+
+            break;
+
+          }
+
+          // 上游未逐段推送参数时，用完成项里的完整参数补齐；reasoning 项完成后整项下发
+          case "response.output_item.done": {
+
+            const item = parsed.item;
+
+            if (item?.type === "reasoning" && typeof item.encrypted_content === "string") {
+
+              if (!sentRoleHeader) {
+                sentRoleHeader = true;
+                await writeChunk(toOpenAIStreamChunkFromDelta(model, responseId, undefined, true));
+              }
+
+              await writeChunk(toOpenAIStreamDeltaChunk(model, responseId, { reasoning_items: [item] }));
+
+              break;
+
+            }
+
+            const toolCall = item?.type === "function_call" ? toolCallsByItem.get(item.id) : undefined;
+
+            if (toolCall && typeof item.arguments === "string" && item.arguments.startsWith(toolCall.streamedArguments)) {
+
+              const remaining = item.arguments.slice(toolCall.streamedArguments.length);
+
+              if (remaining) {
+                toolCall.streamedArguments = item.arguments;
+                await writeChunk(toOpenAIStreamToolCallChunk(model, responseId, toolCall.index, remaining));
+              }
+
+            }
+
+            break;
+
+          }
+
+          case "response.output_text.delta": {
+
+            if (!sentRoleHeader) {
+
+              sentRoleHeader = true;
+
+              await writeChunk(toOpenAIStreamChunkFromDelta(model, responseId, undefined, true));
+
+            }
+
+            const deltaText = typeof parsed.delta === "string" ? parsed.delta : "";
+
+            if (deltaText) {
+
+              await writeChunk(toOpenAIStreamChunkFromDelta(model, responseId, deltaText, false));
+
+            }
+
+            break;
+
+          }
+
+          case "response.reasoning_summary_text.delta": {
+
+            if (!sentRoleHeader) {
+
+              sentRoleHeader = true;
+
+              await writeChunk(toOpenAIStreamChunkFromDelta(model, responseId, undefined, true));
+
+            }
+
+            const reasoningDelta = typeof parsed.delta === "string" ? parsed.delta : "";
+
+            if (reasoningDelta) {
+
+              reasoningContent += reasoningDelta;
+
+              await writeChunk(toOpenAIStreamChunkFromDelta(model, responseId, undefined, false, reasoningDelta));
+
+            }
+
+            break;
+
+          }
+
+          case "response.completed":
+
+          case "response.incomplete": {
+
+            if (parsed.response?.usage) {
+
+              capturedUsage = responsesUsageToOpenAI(parsed.response.usage);
+
+            }
+
+            await writeChunk(toOpenAIStreamDone(
+              model,
+              responseId,
+              options.includeUsage ? undefined : capturedUsage,
+              reasoningContent,
+              mapResponsesFinishReason(parsed.response, toolCallsByItem.size > 0),
+            ));
+
+            if (options.includeUsage) {
+
+              await writeChunk(toOpenAIStreamUsageChunk(model, responseId, capturedUsage));
+
+            }
+
+            break;
+
+          }
+
+          case "response.error": {
+
+            const errorMsg = parsed.error?.message || JSON.stringify(parsed.error) || "Unknown error";
+
+            const errorType = parsed.error?.type || "api_error";
+
+            console.error("Factory AI API流式错误:", parsed.error);
+
+            await writeChunk(toOpenAIStreamError(model, responseId, `Factory AI Error: ${errorMsg}`, errorType));
+
+            break;
+
+          }
+
+        }
+
+      });
+
+
+
+      await writer.write(encoder.encode("data: [DONE]\n\n"));
+
+    } catch (e) {
+
+      console.error("流处理错误:", e);
+
+      try {
+
+        await writeChunk(toOpenAIStreamError(model, responseId, `Stream processing error: ${e}`, "internal_error"));
+
+        await writer.write(encoder.encode("data: [DONE]\n\n"));
+
+      } catch (writeErr) {
+
+        console.error("无法写入错误信息:", writeErr);
+
+      }
+
+    } finally {
+
+      try {
+
+        await writer.close();
+
+      } catch {}
+
+    }
+
+  })();
+
+
+
+  return new Response(readable, {
+
+    headers: {
+
+      "Content-Type": "text/event-stream; charset=utf-8",
+
+      "Cache-Control": "no-cache, no-transform",
+
+      "Connection": "keep-alive",
+
+      "Access-Control-Allow-Origin": "*",
+
+      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+
+      "Access-Control-Allow-Headers": CORS_ALLOW_HEADERS,
+
+    },
+
+  });
+
+}
+
+
+
+/* ====== Claude 原生格式流式响应处理 ====== */
+
+async function pipeClaudeNativeStreamToClient(claudeResp: Response): Promise<Response> {
+  const { readable, writable } = new TransformStream();
+  const writer = writable.getWriter();
+  const encoder = new TextEncoder();
+
+  (async () => {
+    try {
+      const reader = claudeResp.body?.getReader();
+      if (!reader) {
+        await writer.close();
+        return;
+      }
+
+      const decoder = new TextDecoder();
+      let buffer = "";
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+
+        // 按完整的SSE事件分割（以双换行符为分隔）
+        const events = buffer.split(/\r?\n\r?\n/);
+        // 保留最后一个不完整的事件
+        buffer = events.pop() || "";
+
+        for (const event of events) {
+          if (event.trim()) {
+            // 写入完整的SSE事件，确保以双换行符结尾
+            await writer.write(encoder.encode(event + "\n\n"));
+          }
+        }
+      }
+
+      // 处理缓冲区中剩余的内容
+      if (buffer.trim()) {
+        await writer.write(encoder.encode(buffer + "\n\n"));
+      }
+
+    } catch (e) {
+      console.error("Claude原生流处理错误:", e);
+      try {
+        const errorEvent = createAnthropicError(`Stream processing error: ${e}`, "api_error");
+        await writer.write(encoder.encode(`event: error\ndata: ${JSON.stringify(errorEvent)}\n\n`));
+      } catch (writeErr) {
+        console.error("无法写入错误信息:", writeErr);
+      }
+    } finally {
+      try {
+        await writer.close();
+      } catch {}
+    }
+  })();
+
+  return new Response(readable, {
+    headers: {
+      "Content-Type": "text/event-stream; charset=utf-8",
+      "Cache-Control": "no-cache, no-transform",
+      "Connection": "keep-alive",
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+      "Access-Control-Allow-Headers": CORS_ALLOW_HEADERS,
+    },
+  });
+}
+
+/* ====== Claude 原生格式处理 ====== */
+
+async function handleClaudeNativeRequest(req: Request): Promise<Response> {
+  try {
+    // 提取所有可能的认证来源
+    const authHeaderRaw = req.headers.get("Authorization");
+    const authToken = extractAuthToken(authHeaderRaw);
+    const xApiKey = req.headers.get("x-api-key")?.trim() || null;  // 支持 Claude 原生 x-api-key header
+    const proxyHeaderToken = (req.headers.get(PROXY_KEY_HEADER) ?? "").trim();
+
+    // 验证代理密钥
+    let matchedProxyKey: string | null = null;
+    if (proxyHeaderToken) {
+      if (PROXY_ACCESS_KEY_SET.has(proxyHeaderToken)) {
+        matchedProxyKey = proxyHeaderToken;
+      } else {
+        return createAnthropicErrorResponse("Missing or invalid proxy access key", "authentication_error");
+      }
+    }
+
+    // 检查 Authorization token 是否是代理密钥
+    if (!matchedProxyKey && authToken && PROXY_ACCESS_KEY_SET.has(authToken)) {
+      matchedProxyKey = authToken;
+    }
+
+    // 检查 x-api-key 是否是代理密钥
+    if (!matchedProxyKey && xApiKey && PROXY_ACCESS_KEY_SET.has(xApiKey)) {
+      matchedProxyKey = xApiKey;
+    }
+
+    // 如果配置了代理密钥但没有匹配到任何密钥
+    if (PROXY_ACCESS_KEY_SET.size > 0 && !matchedProxyKey && !authToken && !xApiKey) {
+      return createAnthropicErrorResponse("Missing or invalid proxy access key", "authentication_error");
+    }
+
+    const authTokenIsProxyKey = Boolean(matchedProxyKey) && authToken === matchedProxyKey;
+    const xApiKeyIsProxyKey = Boolean(matchedProxyKey) && xApiKey === matchedProxyKey;
+
+    // 确定最终使用的 API key，优先级: authToken > xApiKey > Factory轮询
+    let apiKey = "";
+    if (!authTokenIsProxyKey && authToken) {
+      apiKey = authToken;
+    } else if (!xApiKeyIsProxyKey && xApiKey) {
+      apiKey = xApiKey;
+    }
+
+    if (!apiKey) {
+      apiKey = getNextFactoryApiKey() ?? "";
+      if (apiKey) {
+        console.log("使用Factory密钥:", maskKeyForLog(apiKey));
+      }
+    }
+
+    if (!apiKey) {
+      return createAnthropicErrorResponse("Missing or invalid API key", "authentication_error");
+    }
+
+    // 解析Claude原生请求
+    const claudeReq = await readJSONBody<ClaudeRequest>(req, ANTHROPIC_INVALID_JSON_MESSAGE);
+
+    if (typeof claudeReq?.model !== "string" || !claudeReq.model.trim()) {
+      throw new InvalidRequestError("model: Field required", "model");
+    }
+
+    const route = resolveModelRoute(claudeReq.model);
+
+    // 非 Claude 系上游（GPT / Gemini 等）：转换为 Chat Completions 后转发，响应再转换回 Claude 格式
+    if (!isAnthropicProvider(route.provider)) {
+      return await handleNonClaudeNativeRequest(claudeReq, apiKey, req);
+    }
+
+    console.log("模型路由:", claudeReq.model, "->", `${route.provider}/${route.model}`, `(${route.source})`);
+
+    // 调试：打印原始请求的 system 字段
+    console.log("=== 原始请求调试 ===");
+    console.log("原始 system 类型:", typeof claudeReq.system);
+    if (typeof claudeReq.system === "string") {
+      console.log("原始 system 长度:", claudeReq.system.length);
+      console.log("原始 system 前100字符:", claudeReq.system.substring(0, 100));
+    } else if (Array.isArray(claudeReq.system)) {
+      console.log("原始 system 块数:", claudeReq.system.length);
+      claudeReq.system.forEach((block: any, i: number) => {
+        console.log(`  block[${i}] type=${block.type}, 长度=${block.text?.length || 0}`);
+      });
+    } else {
+      console.log("原始 system 为空或未定义");
+    }
+    console.log("原始 messages 数量:", claudeReq.messages?.length || 0);
+
+    // 处理系统提示词注入 - 保留原有的 cache_control
+    let systemField = claudeReq.system;
+    let systemBlocks: SystemTextBlock[] = [];
+
+    // 合规提示词块（不加缓存，让缓存在用户内容上）
+    const complianceBlocks: SystemTextBlock[] = [
+      { type: "text", text: COMPLIANCE_SYSTEM_PROMPT },
+      { type: "text", text: BUFFER_SYSTEM_PROMPT },
+    ];
+
+    if (systemField) {
+      if (typeof systemField === "string") {
+        // 如果是字符串，先检查是否是需要过滤的内容
+        if (!isClaudeCodeIdentityPrompt(systemField)) {
+          // 处理 Claude Code 类的系统提示词
+          const processedText = isCodeAssistantPrompt(systemField) ? systemField.toLowerCase() : systemField;
+          systemBlocks = [
+            ...complianceBlocks,
+            { type: "text", text: processedText, cache_control: { type: "ephemeral" } }
+          ];
+        } else {
+          // 被过滤的内容，只添加合规提示词
+          console.log("过滤掉Claude Code系统提示词:", systemField.substring(0, 50) + "...");
+          complianceBlocks[complianceBlocks.length - 1].cache_control = { type: "ephemeral" };
+          systemBlocks = complianceBlocks;
+        }
+      } else if (Array.isArray(systemField)) {
+        // 如果已经是块数组，保留原有结构和 cache_control
+        const filteredBlocks = systemField
+          .filter((block: any) => {
+            if (block.type !== "text") return true; // 保留非文本块
+            if (isClaudeCodeIdentityPrompt(block.text || "")) {
+              console.log("过滤掉Claude Code系统提示词:", block.text.substring(0, 50) + "...");
+              return false;
+            }
+            return true;
+          })
+          .map((block: any) => {
+            // 处理 Claude Code 类的系统提示词（小写化）
+            if (block.type === "text" && isCodeAssistantPrompt(block.text || "")) {
+              return { ...block, text: block.text.toLowerCase() };
+            }
+            return block;
+          });
+
+        // 检查是否有任何块带有 cache_control
+        const hasExistingCache = filteredBlocks.some((block: any) => block.cache_control);
+
+        if (filteredBlocks.length > 0) {
+          // 有用户系统提示词
+          if (!hasExistingCache) {
+            // 没有缓存断点，在最后一个块上添加
+            filteredBlocks[filteredBlocks.length - 1] = {
+              ...filteredBlocks[filteredBlocks.length - 1],
+              cache_control: { type: "ephemeral" }
+            };
+            console.log("反代添加缓存断点到系统提示词");
+          } else {
+            console.log("保留 SillyTavern 原有的缓存断点");
+          }
+          systemBlocks = [...complianceBlocks, ...filteredBlocks];
+        } else {
+          // 用户系统提示词为空（如 SillyTavern 发送空数组），在合规提示词上加缓存
+          complianceBlocks[complianceBlocks.length - 1].cache_control = { type: "ephemeral" };
+          systemBlocks = complianceBlocks;
+          console.log("系统提示词为空，在合规提示词上添加缓存断点");
+        }
+      }
+    } else {
+      // 如果没有系统提示词，只添加合规提示词并在最后一个上加缓存
+      complianceBlocks[complianceBlocks.length - 1].cache_control = { type: "ephemeral" };
+      systemBlocks = complianceBlocks;
+    }
+
+    // SillyTavern 优化：在对话历史中添加缓存断点
+    const messages = claudeReq.messages ? [...claudeReq.messages] : [];
+
+    // 检查消息中是否已有缓存断点（SillyTavern 可能已添加）
+    const hasExistingMsgCache = messages.some((msg: any) => {
+      if (Array.isArray(msg.content)) {
+        return msg.content.some((block: any) => block.cache_control);
+      }
+      return false;
+    });
+
+    if (hasExistingMsgCache) {
+      console.log("保留 SillyTavern 原有的消息缓存断点");
+    } else {
+      // SillyTavern 特殊处理：所有内容合并在一条消息里
+      // 在第一条 user 消息上添加缓存断点（角色卡/设定部分）
+      if (messages.length === 1 && messages[0].role === "user") {
+        const msg = messages[0];
+        if (Array.isArray(msg.content) && msg.content.length > 0) {
+          // 在第一个 content block 上添加缓存（通常是角色卡）
+          const firstBlock = msg.content[0] as any;
+          if (firstBlock && typeof firstBlock === "object") {
+            firstBlock.cache_control = { type: "ephemeral" };
+            console.log("反代添加: 在唯一消息的第一个块上设置缓存断点");
+          }
+        } else if (typeof msg.content === "string") {
+          // 字符串内容，转换为块数组并添加缓存
+          messages[0] = {
+            ...msg,
+            content: [{ type: "text", text: msg.content, cache_control: { type: "ephemeral" } }] as any
+          };
+          console.log("反代添加: 在唯一消息上设置缓存断点（字符串转块）");
+        }
+      }
+      // 多条消息时：在倒数第2个用户消息上设置缓存
+      else if (messages.length >= 4) {
+        let userMsgCount = 0;
+        for (let i = messages.length - 1; i >= 0; i--) {
+          if (messages[i].role === "user") {
+            userMsgCount++;
+            if (userMsgCount === 2) {
+              const msg = messages[i];
+              if (Array.isArray(msg.content) && msg.content.length > 0) {
+                const lastBlock = msg.content[msg.content.length - 1] as any;
+                if (lastBlock && typeof lastBlock === "object") {
+                  lastBlock.cache_control = { type: "ephemeral" };
+                  console.log("反代添加: 在倒数第2个用户消息上设置缓存断点");
+                }
+              } else if (typeof msg.content === "string") {
+                messages[i] = {
+                  ...msg,
+                  content: [{ type: "text", text: msg.content, cache_control: { type: "ephemeral" } }] as any
+                };
+                console.log("反代添加: 在倒数第2个用户消息上设置缓存断点");
+              }
+              break;
+            }
+          }
+        }
+      }
+    }
+
+    // 每个候选单独构建请求体：路由 defaults、thinking 预算和 Opus 4.5 的 effort 都与上游模型有关
+    const buildCandidateRequest = (candidate: ModelRoute) => {
+
+      const candidateReq: any = { ...claudeReq };
+
+      const appliedDefaults = applyClaudeNativeDefaults(candidateReq, candidate.defaults, candidate.model);
+
+      if (appliedDefaults.length) {
+        console.log(`路由默认参数 (${describeRoute(candidate)}):`, appliedDefaults.join(", "));
+      }
+
+      // 处理thinking参数 - 修复budgetTokens为null或使用驼峰命名的问题
+      let thinkingConfig: ClaudeThinking | undefined = undefined;
+      if (candidateReq.thinking) {
+        const rawThinking = candidateReq.thinking as any;
+        // 处理驼峰命名的budgetTokens转换为下划线命名的budget_tokens
+        const budgetTokens = rawThinking.budget_tokens ?? rawThinking.budgetTokens;
+
+        // 如果budgetTokens为null、undefined、NaN或无效数字，不添加thinking参数
+        if (budgetTokens === null || budgetTokens === undefined ||
+            (typeof budgetTokens === 'number' && isNaN(budgetTokens)) ||
+            typeof budgetTokens !== 'number') {
+          console.log("thinking.budgetTokens无效，跳过thinking参数");
+          thinkingConfig = undefined;
+        } else {
+          thinkingConfig = {
+            type: "enabled",
+            budget_tokens: budgetTokens
+          };
+        }
+      }
+
+      // 构建最终的Claude请求，移除top_p和原始thinking参数（A社原生格式不支持top_p）
+      const { top_p, thinking: _rawThinking, messages: _originalMessages, ...restClaudeReq } = candidateReq;
+      if (top_p !== undefined) {
+        console.log("移除top_p参数:", top_p);
+      }
+
+      const finalClaudeReq: any = {
+        ...restClaudeReq,
+        model: candidate.model,
+        system: systemBlocks,
+        messages, // 使用添加了缓存断点的messages
+        ...(thinkingConfig ? { thinking: thinkingConfig } : {})
+      };
+
+      // 添加 prompt-caching-2024-07-31 支持提示词缓存
+      let betaHeader = "interleaved-thinking-2025-05-14,context-1m-2025-08-07,prompt-caching-2024-07-31";
+
+      // 只有 Opus 4.5 才添加 effort 参数；fallback 到其他模型时去掉 effort，否则上游返回 400
+      if (isOpus45Model(candidate.model)) {
+        finalClaudeReq.output_config = {
+          ...finalClaudeReq.output_config,
+          effort: finalClaudeReq.output_config?.effort ?? "high",
+        };
+        betaHeader += ",effort-2025-11-24";
+        console.log("Opus 4.5 检测到，effort参数:", finalClaudeReq.output_config.effort);
+      } else if (candidate !== route && finalClaudeReq.output_config?.effort !== undefined) {
+        const { effort: _effort, ...outputConfig } = finalClaudeReq.output_config;
+        if (Object.keys(outputConfig).length > 0) {
+          finalClaudeReq.output_config = outputConfig;
+        } else {
+          delete finalClaudeReq.output_config;
+        }
+      }
+
+      return { body: finalClaudeReq, beta: mergeBetaHeader(betaHeader, candidate.beta) };
+
+    };
+
+    const primary = buildCandidateRequest(route);
+
+    console.log(`正在发送${providerLabel(route)} API请求 (原生格式)...`);
+    console.log("URL:", route.endpoint);
+    console.log("模型:", primary.body.model);
+    console.log("流式:", primary.body.stream);
+    console.log("最大tokens:", primary.body.max_tokens);
+    console.log("对话轮数:", primary.body.messages.length);
+    console.log("系统提示词数量:", systemBlocks.length);
+    console.log("系统提示词内容:");
+    systemBlocks.forEach((block, index) => {
+      const hasCache = block.cache_control ? " [CACHED]" : "";
+      console.log(`  [${index}]${hasCache}: ${block.text.substring(0, 50)}...`);
+    });
+    // 检查消息中的缓存断点
+    let msgCacheCount = 0;
+    messages.forEach((msg: any, idx: number) => {
+      if (Array.isArray(msg.content)) {
+        msg.content.forEach((block: any) => {
+          if (block.cache_control) {
+            msgCacheCount++;
+            console.log(`  消息[${idx}] ${msg.role} 有缓存断点`);
+          }
+        });
+      }
+    });
+    console.log("消息缓存断点数:", msgCacheCount);
+    console.log("-".repeat(50));
+
+    const { resp: claudeResp, route: chosen } = await fetchWithFallback(sameProtocolCandidates(route, isAnthropicProvider), async (candidate, budget) => {
+      const { body, beta } = candidate === route ? primary : buildCandidateRequest(candidate);
+      return {
+        resp: await fetchUpstream(candidate, candidate.endpoint, {
+          method: "POST",
+          headers: buildRouteHeaders(candidate, apiKey, {
+            "anthropic-beta": beta,
+            "anthropic-version": "2023-06-01",
+          }),
+          body: JSON.stringify(body),
+        }, budget),
+      };
+    }, req.signal);
+
+    if (!claudeResp.ok) {
+      return withProxyProvider(await createAnthropicErrorResponseFromUpstream(claudeResp, providerLabel(chosen)), chosen);
+    }
+
+    // 模型名被别名 / 路由改写时，响应中换回客户端请求的名字
+    const rewriteModel = chosen.model !== claudeReq.model;
+
+    // 流式响应按完整事件转发，读取中断时补发 Anthropic 格式的 error 事件
+    if (primary.body.stream) {
+      const streamResp = await pipeClaudeNativeStreamToClient(rewriteModel ? rewriteSSEModel(claudeResp, claudeReq.model) : claudeResp);
+      return withProxyProvider(streamResp, chosen);
+    }
+
+    if (rewriteModel) {
+      const claudeData = rewriteResponseModel(await claudeResp.json(), claudeReq.model);
+      return withProxyProvider(new Response(JSON.stringify(claudeData), {
+        headers: {
+          "Content-Type": "application/json",
+          "Access-Control-Allow-Origin": "*",
+          "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+          "Access-Control-Allow-Headers": CORS_ALLOW_HEADERS,
+        },
+      }), chosen);
+    }
+
+    // 非流式响应直接转发
+    const responseHeaders = new Headers(claudeResp.headers);
+    responseHeaders.set("Access-Control-Allow-Origin", "*");
+    responseHeaders.set("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+    responseHeaders.set("Access-Control-Allow-Headers", CORS_ALLOW_HEADERS);
+
+    return withProxyProvider(new Response(claudeResp.body, {
+      status: claudeResp.status,
+      headers: responseHeaders,
+    }), chosen);
+
+  } catch (error: any) {
+    if (error instanceof InvalidRequestError) {
+      console.warn("请求参数无效:", error.message);
+      return createAnthropicErrorResponse(error.message, "invalid_request_error");
+    }
+    if (req.signal.aborted) return clientDisconnectedResponse();
+    console.error("处理Claude原生请求时发生错误:", error);
+    return createAnthropicErrorResponse(`Internal Server Error: ${error?.message || String(error)}`, "api_error");
+  }
+}
+
+/* ====== Token 计数端点处理 ====== */
+
+async function handleTokenCountRequest(req: Request): Promise<Response> {
+  try {
+    const authHeaderRaw = req.headers.get("Authorization");
+    const authToken = extractAuthToken(authHeaderRaw);
+    const xApiKey = req.headers.get("x-api-key");
+    const proxyHeaderToken = (req.headers.get(PROXY_KEY_HEADER) ?? "").trim();
+
+    let matchedProxyKey: string | null = null;
+    if (proxyHeaderToken) {
+      if (PROXY_ACCESS_KEY_SET.has(proxyHeaderToken)) {
+        matchedProxyKey = proxyHeaderToken;
+      } else {
+        return createAnthropicErrorResponse("Missing or invalid proxy access key", "authentication_error");
+      }
+    }
+
+    if (!matchedProxyKey && authToken && PROXY_ACCESS_KEY_SET.has(authToken)) {
+      matchedProxyKey = authToken;
+    }
+
+    if (PROXY_ACCESS_KEY_SET.size > 0 && !matchedProxyKey && !authToken && !xApiKey) {
+      return createAnthropicErrorResponse("Missing or invalid proxy access key", "authentication_error");
+    }
+
+    const authTokenIsProxyKey = Boolean(matchedProxyKey) && authToken === matchedProxyKey;
+
+    let apiKey = "";
+    if (xApiKey) {
+      apiKey = xApiKey;
+    } else if (!authTokenIsProxyKey && authToken) {
+      apiKey = authToken;
+    }
+
+    if (!apiKey) {
+      apiKey = getNextFactoryApiKey() ?? "";
+      if (apiKey) {
+        console.log("使用轮询Factory密钥:", maskKeyForLog(apiKey));
+      }
+    }
+
+    if (!apiKey) {
+      return createAnthropicErrorResponse("Missing or invalid API key", "authentication_error");
+    }
+
+    // 解析请求体并直接转发
+    const requestBody = await readJSONBody<Record<string, any>>(req, ANTHROPIC_INVALID_JSON_MESSAGE);
+
+    if (typeof requestBody?.model !== "string" || !requestBody.model.trim()) {
+      throw new InvalidRequestError("model: Field required", "model");
+    }
+
+    const route = resolveModelRoute(requestBody.model);
+
+    if (!isAnthropicProvider(route.provider)) {
+      throw new InvalidRequestError(`model: token counting is only available for Claude models, '${requestBody.model}' routes to ${route.provider}`, "model");
+    }
+
+    console.log("=== Token 计数请求 ===");
+    console.log("模型:", requestBody.model, "->", describeRoute(route));
+    console.log("消息数:", requestBody.messages?.length || 0);
+
+    const { resp: countResp, route: chosen } = await fetchWithFallback(sameProtocolCandidates(route, isAnthropicProvider), async (candidate, budget) => ({
+      resp: await fetchUpstream(candidate, `${candidate.endpoint.replace(/\/+$/, "")}/count_tokens`, {
+        method: "POST",
+        headers: buildRouteHeaders(candidate, apiKey, {
+          "anthropic-version": "2023-06-01",
+          ...(candidate.beta.length ? { "anthropic-beta": mergeBetaHeader(candidate.beta) } : {}),
+        }),
+        body: JSON.stringify({ ...requestBody, model: candidate.model }),
+      }, budget),
+    }), req.signal);
+
+    if (!countResp.ok) {
+      return withProxyProvider(await createAnthropicErrorResponseFromUpstream(countResp, providerLabel(chosen)), chosen);
+    }
+
+    const result = await countResp.json();
+    console.log("Token 计数结果:", result);
+
+    return withProxyProvider(new Response(JSON.stringify(result), {
+      status: 200,
+      headers: {
+        "Content-Type": "application/json",
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+        "Access-Control-Allow-Headers": CORS_ALLOW_HEADERS,
+      },
+    }), chosen);
+
+  } catch (error: any) {
+    if (error instanceof InvalidRequestError) {
+      console.warn("请求参数无效:", error.message);
+      return createAnthropicErrorResponse(error.message, "invalid_request_error");
+    }
+    if (req.signal.aborted) return clientDisconnectedResponse();
+    console.error("处理Token计数请求时发生错误:", error);
+    return createAnthropicErrorResponse(`Internal Server Error: ${error?.message || String(error)}`, "api_error");
+  }
+}
+
+/* ====== OpenAI兼容格式处理 ====== */
+
+// OpenAI 风格端点（chat/completions、responses）的认证：代理密钥校验 + 上游 API key 选择
+// 返回 Response 表示认证失败，调用方直接返回给客户端
+function resolveOpenAIAuth(req: Request): { apiKey: string } | Response {
+  const authHeaderRaw = req.headers.get("Authorization");
+  const authToken = extractAuthToken(authHeaderRaw);
+  const proxyHeaderToken = (req.headers.get(PROXY_KEY_HEADER) ?? "").trim();
+
+  let matchedProxyKey: string | null = null;
+  if (proxyHeaderToken) {
+    if (PROXY_ACCESS_KEY_SET.has(proxyHeaderToken)) {
+      matchedProxyKey = proxyHeaderToken;
+    } else {
+      return createErrorResponse("Missing or invalid proxy access key", 401, "invalid_proxy_key", "proxy_key");
+    }
+  }
+
+  if (!matchedProxyKey && authToken && PROXY_ACCESS_KEY_SET.has(authToken)) {
+    matchedProxyKey = authToken;
+  }
+
+  if (PROXY_ACCESS_KEY_SET.size > 0 && !matchedProxyKey && !authToken) {
+    return createErrorResponse("Missing or invalid proxy access key", 401, "invalid_proxy_key", "proxy_key");
+  }
+
+  const authTokenIsProxyKey = Boolean(matchedProxyKey) && authToken === matchedProxyKey;
+
+  let apiKey = "";
+  if (!authTokenIsProxyKey && authToken) {
+    apiKey = authToken;
+  }
+
+  if (!apiKey) {
+    apiKey = getNextFactoryApiKey() ?? "";
+    if (apiKey) {
+      console.log("使用Factory密钥:", maskKeyForLog(apiKey));
+    }
+  }
+
+  if (!apiKey) {
+    return createErrorResponse("Missing or invalid Authorization header", 401, "invalid_request_error", "invalid_api_key");
+  }
+
+  return { apiKey };
+}
+
+// 应用路由默认参数；model 仍是客户端请求的名字，响应转换时使用
+// messages 深拷贝，候选的转换逻辑不会影响客户端请求和后续候选
+function prepareRouteRequest(openaiReq: OpenAIRequest, route: ModelRoute, messages: OpenAIMessage[] = openaiReq.messages): OpenAIRequest {
+
+  const routedReq: OpenAIRequest = { ...openaiReq, messages: structuredClone(messages) };
+
+  const appliedDefaults = applyRouteDefaults(routedReq, route.defaults);
+
+  if (appliedDefaults.length) {
+    console.log("路由默认参数:", appliedDefaults.map(key => `${key}=${JSON.stringify(route.defaults[key])}`).join(", "));
+  }
+
+  return routedReq;
+
+}
+
+// 按路由转换请求并发送，返回上游的原始响应（错误和成功响应都由调用方处理）
+async function sendOpenAIRequestToRoute(routedReq: OpenAIRequest, route: ModelRoute, apiKey: string, budget: RetryBudget): Promise<Response> {
+
+  // 上游使用路由解析出的模型名
+  const upstreamOpenAIReq: OpenAIRequest = {
+    ...routedReq,
+    model: route.model,
+  };
+
+  const label = providerLabel(route);
+
+  // Gemini模型处理 - 直接转发到Factory AI的OpenAI兼容端点
+  if (route.provider === "gemini") {
+    console.log("正在发送Gemini API请求...");
+    console.log("URL:", route.endpoint);
+    console.log("模型:", upstreamOpenAIReq.model);
+    console.log("流式:", Boolean(upstreamOpenAIReq.stream));
+    console.log("reasoning_effort:", upstreamOpenAIReq.reasoning_effort);
+    console.log("对话轮数:", upstreamOpenAIReq.messages.length);
+    console.log("-".repeat(50));
+
+    return await fetchUpstream(route, route.endpoint, {
+      method: "POST",
+      headers: buildRouteHeaders(route, apiKey),
+      body: JSON.stringify(upstreamOpenAIReq),
+    }, budget);
+  }
+
+
+
+  // Claude 系模型处理（Claude / Bedrock / Vertex 只在 x-api-provider 上不同）
+
+  if (isAnthropicProvider(route.provider)) {
+
+    const claudeReq = toClaudeRequest(upstreamOpenAIReq);
+    const hasSearch = claudeReq.tools?.some(t => t.name === "web_search") ?? false;
+
+    console.log(`正在发送${label} API请求...`);
+    console.log("URL:", route.endpoint);
+    console.log("原始模型:", routedReq.model);
+    console.log("实际模型:", claudeReq.model);
+    console.log("思考模式:", claudeReq.thinking ? `已启用 (${claudeReq.thinking.budget_tokens} tokens)` : "未启用");
+    console.log("搜索模式:", hasSearch ? "已启用 (web_search)" : "未启用");
+    console.log("流式:", claudeReq.stream);
+    console.log("最大tokens:", claudeReq.max_tokens);
+    console.log("对话轮数:", claudeReq.messages.length);
+    console.log("缓存断点数:", countCacheBreakpoints(claudeReq));
+    if (claudeReq.tools && claudeReq.tools.length > 0) {
+      console.log("工具数量:", claudeReq.tools.length);
+      console.log("工具列表:", claudeReq.tools.map((t: any) => t.name).join(", "));
+    }
+    if (claudeReq.thinking) {
+      console.log("Thinking配置:", JSON.stringify(claudeReq.thinking));
+    }
+    if (route.apiProvider) {
+      console.log("模型提供商:", route.apiProvider);
+    }
+    console.log("-".repeat(50));
+
+    return await fetchUpstream(route, route.endpoint, {
+
+      method: "POST",
+
+      headers: buildRouteHeaders(route, apiKey, {
+
+        "anthropic-beta": mergeBetaHeader(buildClaudeBetaHeader(claudeReq), route.beta),
+
+        "anthropic-version": "2023-06-01",
+
+      }),
+
+      body: JSON.stringify(claudeReq),
+
+    }, budget);
+
+  }
+
+
+
+  // Factory AI模型处理
+
+  const factoryReq = toFactoryAIRequest(upstreamOpenAIReq, true);
+
+
+
+  console.log("正在发送Factory AI请求...");
+
+  console.log("URL:", route.endpoint);
+
+  console.log("模型:", factoryReq.model);
+
+  console.log("指令:", factoryReq.instructions);
+
+  console.log("上游流式: true");
+
+  console.log("最大输出tokens:", factoryReq.max_output_tokens);
+
+  console.log("对话轮数:", factoryReq.input.length);
+
+  const lastUser = [...factoryReq.input].reverse().find((m): m is FactoryAIMessage => "role" in m && m.role === "user");
+
+  if (lastUser) {
+
+    const firstTextPart = lastUser.content.find(part => "text" in part) as Extract<FactoryAIContentPart, { text: string }> | undefined;
+
+    if (firstTextPart) {
+
+      console.log("??????:", firstTextPart.text);
+
+    } else if (lastUser.content.some(part => "image_url" in part)) {
+
+      console.log("??????:", "[??????]");
+
+    }
+
+  }
+
+  console.log("-".repeat(50));
+
+
+
+  return await fetchUpstream(route, route.endpoint, {
+
+    method: "POST",
+
+    headers: buildRouteHeaders(route, apiKey),
+
+    body: JSON.stringify(factoryReq),
+
+  }, budget);
+
+}
+
+// 上游成功响应转换为 OpenAI 格式，model 字段使用客户端请求的名字
+async function convertRouteResponseToOpenAI(routedReq: OpenAIRequest, route: ModelRoute, upstreamResp: Response): Promise<Response> {
+
+  const clientWantsStream = Boolean(routedReq.stream);
+
+  if (route.provider === "gemini") {
+
+    // 直接转发响应，因为已经是OpenAI格式；模型名被路由改写时换回客户端请求的名字
+    const rewriteModel = route.model !== routedReq.model;
+
+    if (clientWantsStream) {
+      const passthrough = rewriteModel ? rewriteSSEModel(upstreamResp, routedReq.model) : upstreamResp;
+      return new Response(passthrough.body, {
+        headers: {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache",
+          "Connection": "keep-alive",
+          "Access-Control-Allow-Origin": "*",
+          "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+          "Access-Control-Allow-Headers": CORS_ALLOW_HEADERS,
+        },
+      });
+    }
+
+    const geminiData = await upstreamResp.json();
+    if (rewriteModel) rewriteResponseModel(geminiData, routedReq.model);
+    return new Response(JSON.stringify(geminiData), {
+      headers: {
+        "Content-Type": "application/json",
+        "Access-Control-Allow-Origin": "*",
+        "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+        "Access-Control-Allow-Headers": CORS_ALLOW_HEADERS,
+      },
+    });
+
+  }
+
+  if (isAnthropicProvider(route.provider)) {
+
+    if (clientWantsStream) {
+
+      return await pipeClaudeStreamToClient(upstreamResp, routedReq.model, getOpenAIStreamOptions(routedReq));
+
+    }
+
+    const claudeData = await upstreamResp.json();
+
+    return new Response(JSON.stringify(claudeToOpenAINonStream(claudeData, routedReq.model, resolveStructuredOutput(routedReq))), {
+
+      headers: {
+
+        "Content-Type": "application/json",
+
+        "Access-Control-Allow-Origin": "*",
+
+        "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+
+        "Access-Control-Allow-Headers": CORS_ALLOW_HEADERS,
+
+      },
+
+    });
+
+  }
+
+  if (clientWantsStream) {
+
+    return await pipeStreamToClient(upstreamResp, routedReq.model, getOpenAIStreamOptions(routedReq));
+
+  }
+
+  return await collectFromUpstreamSSE(upstreamResp, routedReq.model);
+
+}
+
+async function handleOpenAIRequest(req: Request): Promise<Response> {
+  try {
+    const auth = resolveOpenAIAuth(req);
+    if (auth instanceof Response) return auth;
+    const { apiKey } = auth;
+
+    const parsedFromMultipart = await tryParseMultipartToOpenAI(req);
+
+    const openaiReq: OpenAIRequest = parsedFromMultipart ?? (await req.json());
+
+    if (typeof openaiReq.model !== "string" || !openaiReq.model.trim()) {
+      return createErrorResponse("Invalid request: missing 'model' field", 400, "invalid_request_error", "model");
+    }
+    if (!Array.isArray(openaiReq.messages)) {
+      return createErrorResponse("Invalid request: 'messages' must be an array", 400, "invalid_request_error", "messages");
+    }
+
+    openaiReq.messages = ensureCompliancePrompts(openaiReq.messages ?? []);
+
+    const route = resolveModelRoute(openaiReq.model);
+
+    console.log("模型路由:", openaiReq.model, "->", describeRoute(route), `(${route.source})`);
+
+    if (route.fallbacks.length) {
+      console.log("fallback 候选:", route.fallbacks.map(describeRoute).join(" -> "));
+    }
+
+    const candidates = [route, ...route.fallbacks];
+
+    logUnsupportedRouteParams(openaiReq, candidates);
+
+    // Claude 系上游无法读取远程图片链接：在副本上抓取并内联一次，供所有 Claude 系候选共用
+    let claudeMessages: OpenAIMessage[] | undefined;
+    if (candidates.some(candidate => isAnthropicProvider(candidate.provider))) {
+      claudeMessages = structuredClone(openaiReq.messages);
+      await inlineRemoteImages(claudeMessages);
+    }
+
+    // 每个候选单独应用路由默认参数；响应转换使用最终选中的候选
+    const { routedReq, resp, route: chosen } = await fetchWithFallback(candidates, async (candidate, budget) => {
+      const routedReq = prepareRouteRequest(openaiReq, candidate, isAnthropicProvider(candidate.provider) ? claudeMessages : undefined);
+      return { routedReq, resp: await sendOpenAIRequestToRoute(routedReq, candidate, apiKey, budget) };
+    }, req.signal);
+
+    if (!resp.ok) {
+      return withProxyProvider(await createErrorResponseFromUpstream(resp, providerLabel(chosen)), chosen);
+    }
+
+    return withProxyProvider(await convertRouteResponseToOpenAI(routedReq, chosen, resp), chosen);
+
+  } catch (error: any) {
+
+    if (error instanceof InvalidRequestError) {
+
+      console.warn("请求参数无效:", error.message);
+
+      return createErrorResponse(error.message, 400, "invalid_request_error", error.code, error.param);
+
+    }
+
+    if (req.signal.aborted) return clientDisconnectedResponse();
+
+    console.error("处理请求时发生错误:", error);
+
+    return createErrorResponse(
+
+      `Internal Server Error: ${error?.message || String(error)}`,
+
+      500,
+
+      "internal_error"
+
+    );
+
+  }
+
+}
+
+/* ====== 跨协议推理状态回传 ====== */
+
+// 上游的推理状态只能借用另一种协议的不透明字段回传：
+// Claude thinking 块 -> Responses reasoning.encrypted_content；Responses reasoning 项 -> Claude thinking.signature
+// 前缀标明来源，内容为 base64 编码的 JSON，客户端原样带回后由代理还原
+const THINKING_BLOCKS_PREFIX = "claude-thinking:";
+
+const REASONING_ITEMS_PREFIX = "factory-reasoning:";
+
+function encodeOpaqueJSON(prefix: string, value: unknown): string {
+  return prefix + uint8ToBase64(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+function decodeOpaqueJSON(prefix: string, encoded: unknown): any[] | undefined {
+  if (typeof encoded !== "string" || !encoded.startsWith(prefix)) return undefined;
+  try {
+    const bytes = Uint8Array.from(atob(encoded.slice(prefix.length)), c => c.charCodeAt(0));
+    const value = JSON.parse(new TextDecoder("utf-8").decode(bytes));
+    return Array.isArray(value) ? value : undefined;
+  } catch {
+    console.warn(`无法解析回传的推理状态 (${prefix})`);
+    return undefined;
+  }
+}
+
+
+
+/* ====== Responses API 端点 ====== */
+
+interface ResponsesRequest {
+
+  model: string;
+
+  input: string | any[];
+
+  instructions?: string;
+
+  stream?: boolean;
+
+  [key: string]: any;
+
+}
+
+// 翻译路径会处理的字段；store / include 对无状态代理没有意义，静默接受
+const RESPONSES_SUPPORTED_PARAMS = new Set([
+  "model", "input", "instructions", "stream", "max_output_tokens", "temperature", "top_p",
+  "tools", "tool_choice", "parallel_tool_calls", "user", "metadata", "reasoning", "text",
+  "store", "include",
+]);
+
+function renderResponsesContentToText(content: any): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content
+    .map((part: any) => typeof part?.text === "string" ? part.text : "")
+    .join("");
+}
+
+// Responses 内容块 -> Chat Completions 内容块
+function convertResponsesContentToOpenAI(content: any): string | OpenAIContentPart[] {
+
+  if (typeof content === "string") return content;
+
+  if (!Array.isArray(content)) return "";
+
+  const parts: OpenAIContentPart[] = [];
+
+  for (const part of content) {
+
+    switch (part?.type) {
+
+      case "input_text":
+      case "output_text":
+        parts.push({ type: "text", text: part.text ?? "" });
+        break;
+
+      case "refusal":
+        parts.push({ type: "text", text: part.refusal ?? "" });
+        break;
+
+      case "input_image": {
+        const url = typeof part.image_url === "string" ? part.image_url : part.image_url?.url;
+        if (!url) {
+          throw new InvalidRequestError("Invalid value for 'input_image': only 'image_url' is supported for this model", "input", "unsupported_value");
+        }
+        parts.push({ type: "image_url", image_url: { url } });
+        break;
+      }
+
+      case "input_file":
+        parts.push({
+          type: "file",
+          file: {
+            ...(part.file_data ? { file_data: part.file_data } : {}),
+            ...(part.filename ? { filename: part.filename } : {}),
+            ...(part.file_id ? { file_id: part.file_id } : {}),
+          },
+        });
+        break;
+
+      default:
+        throw new InvalidRequestError(`Invalid value for 'input': unsupported content type '${part?.type}'`, "input", "unsupported_value");
+
+    }
+
+  }
+
+  return parts;
+
+}
+
+function convertResponsesInputToMessages(input: any, instructions: any): OpenAIMessage[] {
+
+  const messages: OpenAIMessage[] = [];
+
+  if (typeof instructions === "string" && instructions.trim()) {
+    messages.push({ role: "system", content: instructions });
+  }
+
+  if (typeof input === "string") {
+    messages.push({ role: "user", content: input });
+    return messages;
+  }
+
+  if (!Array.isArray(input)) {
+    throw new InvalidRequestError("Invalid type for 'input': expected a string or an array of input items", "input", "invalid_type");
+  }
+
+  // reasoning 项中还原出的 thinking 块，挂到紧随其后的 assistant 消息上
+  let pendingThinkingBlocks: ClaudeThinkingContentBlock[] = [];
+
+  const takeThinkingBlocks = () => {
+    const blocks = pendingThinkingBlocks;
+    pendingThinkingBlocks = [];
+    return blocks.length ? { thinking_blocks: blocks } : {};
+  };
+
+  for (const item of input) {
+
+    const type = item?.type ?? (item?.role ? "message" : undefined);
+
+    switch (type) {
+
+      case "message": {
+        const role = item.role === "developer" ? "system" : item.role;
+        if (role !== "user" && role !== "assistant" && role !== "system") {
+          throw new InvalidRequestError(`Invalid value for 'input': unsupported message role '${item.role}'`, "input");
+        }
+        messages.push({
+          role,
+          content: convertResponsesContentToOpenAI(item.content),
+          ...(role === "assistant" ? takeThinkingBlocks() : {}),
+        });
+        break;
+      }
+
+      // 同一回合的 function_call 合并到前一条 assistant 消息的 tool_calls
+      case "function_call": {
+        const call: OpenAIToolCall = {
+          id: item.call_id,
+          type: "function",
+          function: { name: item.name ?? "", arguments: item.arguments ?? "{}" },
+        };
+        const last = messages[messages.length - 1];
+        if (last?.role === "assistant" && !pendingThinkingBlocks.length) {
+          last.tool_calls = [...(last.tool_calls ?? []), call];
+        } else {
+          messages.push({ role: "assistant", content: null, tool_calls: [call], ...takeThinkingBlocks() });
+        }
+        break;
+      }
+
+      case "function_call_output":
+        messages.push({
+          role: "tool",
+          tool_call_id: item.call_id,
+          content: typeof item.output === "string" ? item.output : convertResponsesContentToOpenAI(item.output),
+        });
+        break;
+
+      // 只有本代理编码的 Claude thinking 块可以还原，其他加密推理只对 Responses 上游有效
+      case "reasoning":
+        pendingThinkingBlocks.push(...(decodeOpaqueJSON(THINKING_BLOCKS_PREFIX, item.encrypted_content) ?? []));
+        break;
+
+      default:
+        throw new InvalidRequestError(`Invalid value for 'input': unsupported item type '${type}'`, "input", "unsupported_value");
+
+    }
+
+  }
+
+  return messages;
+
+}
+
+function responsesRequestToOpenAI(body: ResponsesRequest): OpenAIRequest {
+
+  logUnsupportedParams(body, RESPONSES_SUPPORTED_PARAMS, "Responses");
+
+  const openaiReq: OpenAIRequest = {
+    model: body.model,
+    messages: convertResponsesInputToMessages(body.input, body.instructions),
+    stream: Boolean(body.stream),
+  };
+
+  // 流式翻译需要 usage 来填充 response.completed
+  if (body.stream) openaiReq.stream_options = { include_usage: true };
+
+  if (body.max_output_tokens !== undefined) openaiReq.max_tokens = body.max_output_tokens;
+
+  for (const key of ["temperature", "top_p", "parallel_tool_calls", "user", "metadata"]) {
+    if (body[key] !== undefined && body[key] !== null) openaiReq[key] = body[key];
+  }
+
+  if (typeof body.reasoning?.effort === "string") openaiReq.reasoning_effort = body.reasoning.effort;
+
+  if (Array.isArray(body.tools)) {
+
+    const functions: any[] = [];
+
+    for (const tool of body.tools) {
+      if (tool?.type === "function") {
+        functions.push({
+          type: "function",
+          function: {
+            name: tool.name,
+            ...(tool.description ? { description: tool.description } : {}),
+            parameters: tool.parameters ?? { type: "object", properties: {} },
+            ...(tool.strict !== undefined ? { strict: tool.strict } : {}),
+          },
+        });
+      } else if (tool?.type === "web_search" || tool?.type === "web_search_preview") {
+        openaiReq.web_search_options = {
+          ...(tool.user_location ? { user_location: tool.user_location } : {}),
+          ...(Array.isArray(tool.filters?.allowed_domains) ? { allowed_domains: tool.filters.allowed_domains } : {}),
+          ...(tool.search_context_size ? { search_context_size: tool.search_context_size } : {}),
+        };
+      } else {
+        throw new InvalidRequestError(`Invalid value for 'tools': tool type '${tool?.type}' is not supported for this model`, "tools", "unsupported_value");
+      }
+    }
+
+    if (functions.length) openaiReq.tools = functions;
+
+  }
+
+  const toolChoice = body.tool_choice;
+
+  if (toolChoice === "auto" || toolChoice === "none" || toolChoice === "required") {
+    openaiReq.tool_choice = toolChoice;
+  } else if (toolChoice?.type === "function" && typeof toolChoice.name === "string") {
+    openaiReq.tool_choice = { type: "function", function: { name: toolChoice.name } };
+  } else if (toolChoice !== undefined && toolChoice !== null) {
+    throw new InvalidRequestError("Invalid value for 'tool_choice': expected 'none', 'auto', 'required' or a function tool", "tool_choice");
+  }
+
+  const format = body.text?.format;
+
+  if (format?.type === "json_object") {
+    openaiReq.response_format = { type: "json_object" };
+  } else if (format?.type === "json_schema") {
+    openaiReq.response_format = {
+      type: "json_schema",
+      json_schema: {
+        name: format.name,
+        schema: format.schema,
+        ...(format.strict !== undefined ? { strict: format.strict } : {}),
+        ...(format.description ? { description: format.description } : {}),
+      },
+    };
+  }
+
+  return openaiReq;
+
+}
+
+// Chat Completions usage -> Responses usage
+function toResponsesUsage(usage: any) {
+
+  if (!usage) return null;
+
+  const inputTokens = usage.prompt_tokens ?? 0;
+
+  const outputTokens = usage.completion_tokens ?? 0;
+
+  return {
+    input_tokens: inputTokens,
+    input_tokens_details: { cached_tokens: usage.prompt_tokens_details?.cached_tokens ?? 0 },
+    output_tokens: outputTokens,
+    output_tokens_details: { reasoning_tokens: usage.completion_tokens_details?.reasoning_tokens ?? 0 },
+    total_tokens: usage.total_tokens ?? inputTokens + outputTokens,
+  };
+
+}
+
+// Chat 的 annotation 把详情包在同名字段里，Responses 是扁平结构
+function toResponsesAnnotation(annotation: any) {
+  const detail = annotation?.[annotation?.type];
+  return detail && typeof detail === "object" ? { type: annotation.type, ...detail } : annotation;
+}
+
+function buildResponsesReasoningItem(id: string, text: string, thinkingBlocks: ClaudeThinkingContentBlock[] = []) {
+  return {
+    type: "reasoning",
+    id,
+    summary: text ? [{ type: "summary_text", text }] : [],
+    ...(thinkingBlocks.length ? { encrypted_content: encodeOpaqueJSON(THINKING_BLOCKS_PREFIX, thinkingBlocks) } : {}),
+  };
+}
+
+function buildResponsesMessageItem(id: string, text: string, annotations: any[], status: string = "completed") {
+  return {
+    type: "message",
+    id,
+    status,
+    role: "assistant",
+    content: status === "in_progress" ? [] : [{ type: "output_text", text, annotations }],
+  };
+}
+
+function buildResponsesFunctionCallItem(id: string, call: OpenAIToolCall, status: string = "completed") {
+  return {
+    type: "function_call",
+    id,
+    call_id: call.id,
+    name: call.function.name,
+    arguments: call.function.arguments,
+    status,
+  };
+}
+
+// finishReason 为 null 表示仍在生成（response.created / in_progress）
+function buildResponsesObject(id: string, createdAt: number, body: ResponsesRequest, output: any[], finishReason: string | null, usage: any) {
+
+  const incompleteReason = finishReason === "length" ? "max_output_tokens"
+    : finishReason === "content_filter" ? "content_filter"
+    : undefined;
+
+  return {
+    id,
+    object: "response",
+    created_at: createdAt,
+    status: finishReason === null ? "in_progress" : incompleteReason ? "incomplete" : "completed",
+    error: null,
+    incomplete_details: incompleteReason ? { reason: incompleteReason } : null,
+    instructions: body.instructions ?? null,
+    max_output_tokens: body.max_output_tokens ?? null,
+    model: body.model,
+    output,
+    parallel_tool_calls: body.parallel_tool_calls ?? true,
+    temperature: body.temperature ?? null,
+    tool_choice: body.tool_choice ?? "auto",
+    tools: body.tools ?? [],
+    top_p: body.top_p ?? null,
+    metadata: body.metadata ?? {},
+    usage,
+  };
+
+}
+
+function chatCompletionToResponses(completion: any, body: ResponsesRequest) {
+
+  const choice = completion?.choices?.[0];
+
+  const message = choice?.message ?? {};
+
+  const output: any[] = [];
+
+  if (message.reasoning_content || message.thinking_blocks?.length) {
+    output.push(buildResponsesReasoningItem(`rs_${crypto.randomUUID()}`, message.reasoning_content ?? "", message.thinking_blocks));
+  }
+
+  if (typeof message.content === "string" && message.content) {
+    const annotations = Array.isArray(message.annotations) ? message.annotations.map(toResponsesAnnotation) : [];
+    output.push(buildResponsesMessageItem(`msg_${crypto.randomUUID()}`, message.content, annotations));
+  }
+
+  for (const call of message.tool_calls ?? []) {
+    output.push(buildResponsesFunctionCallItem(`fc_${crypto.randomUUID()}`, call));
+  }
+
+  return buildResponsesObject(
+    `resp_${crypto.randomUUID()}`,
+    completion?.created ?? Math.floor(Date.now() / 1000),
+    body,
+    output,
+    choice?.finish_reason ?? "stop",
+    toResponsesUsage(completion?.usage),
+  );
+
+}
+
+/* ====== Chat Completions 流式 -> Responses SSE ====== */
+
+// 同一时刻只有一个输出项处于打开状态，切换到新的输出项时先关闭上一个
+async function pipeChatStreamToResponses(chatResp: Response, body: ResponsesRequest): Promise<Response> {
+
+  const { readable, writable } = new TransformStream();
+
+  const writer = writable.getWriter();
+
+  const encoder = new TextEncoder();
+
+
+
+  const responseId = `resp_${crypto.randomUUID()}`;
+
+  const createdAt = Math.floor(Date.now() / 1000);
+
+  let sequenceNumber = 0;
+
+  // 已关闭的输出项按 output_index 存放，用于 response.completed
+  const output: any[] = [];
+
+  type OpenItem =
+    | { kind: "reasoning"; id: string; outputIndex: number; text: string; thinkingBlocks: ClaudeThinkingContentBlock[] }
+    | { kind: "message"; id: string; outputIndex: number; text: string; annotations: any[] }
+    | { kind: "function_call"; id: string; outputIndex: number; toolIndex: number; call: OpenAIToolCall };
+
+  let openItem: OpenItem | undefined;
+
+  const toolItems = new Map<number, Extract<OpenItem, { kind: "function_call" }>>();
+
+  let finishReason: string | null = null;
+
+  let usage: any = null;
+
+  let failure: { message: string; code: string } | undefined;
+
+
+
+  const writeEvent = async (type: string, payload: Record<string, unknown>) => {
+
+    const event = { type, sequence_number: sequenceNumber++, ...payload };
+
+    await writer.write(encoder.encode(`event: ${type}\ndata: ${JSON.stringify(event)}\n\n`));
+
+  };
+
+  const closeOpenItem = async () => {
+
+    const item = openItem;
+
+    if (!item) return;
+
+    openItem = undefined;
+
+    const base = { item_id: item.id, output_index: item.outputIndex };
+
+    if (item.kind === "reasoning") {
+
+      const part = { type: "summary_text", text: item.text };
+
+      await writeEvent("response.reasoning_summary_text.done", { ...base, summary_index: 0, text: item.text });
+      await writeEvent("response.reasoning_summary_part.done", { ...base, summary_index: 0, part });
+
+      output[item.outputIndex] = buildResponsesReasoningItem(item.id, item.text, item.thinkingBlocks);
+
+    } else if (item.kind === "message") {
+
+      const part = { type: "output_text", text: item.text, annotations: item.annotations };
+
+      await writeEvent("response.output_text.done", { ...base, content_index: 0, text: item.text });
+      await writeEvent("response.content_part.done", { ...base, content_index: 0, part });
+
+      output[item.outputIndex] = buildResponsesMessageItem(item.id, item.text, item.annotations);
+
+    } else {
+
+      await writeEvent("response.function_call_arguments.done", { ...base, arguments: item.call.function.arguments });
+
+      output[item.outputIndex] = buildResponsesFunctionCallItem(item.id, item.call);
+
+    }
+
+    await writeEvent("response.output_item.done", { output_index: item.outputIndex, item: output[item.outputIndex] });
+
+  };
+
+  const openReasoningItem = async () => {
+
+    if (openItem?.kind === "reasoning") return openItem;
+
+    await closeOpenItem();
+
+    const item: OpenItem = { kind: "reasoning", id: `rs_${crypto.randomUUID()}`, outputIndex: output.length, text: "", thinkingBlocks: [] };
+
+    output.push(null);
+    openItem = item;
+
+    await writeEvent("response.output_item.added", { output_index: item.outputIndex, item: buildResponsesReasoningItem(item.id, "") });
+    await writeEvent("response.reasoning_summary_part.added", {
+      item_id: item.id,
+      output_index: item.outputIndex,
+      summary_index: 0,
+      part: { type: "summary_text", text: "" },
+    });
+
+    return item;
+
+  };
+
+  const openMessageItem = async () => {
+
+    if (openItem?.kind === "message") return openItem;
+
+    await closeOpenItem();
+
+    const item: OpenItem = { kind: "message", id: `msg_${crypto.randomUUID()}`, outputIndex: output.length, text: "", annotations: [] };
+
+    output.push(null);
+    openItem = item;
+
+    await writeEvent("response.output_item.added", {
+      output_index: item.outputIndex,
+      item: buildResponsesMessageItem(item.id, "", [], "in_progress"),
+    });
+    await writeEvent("response.content_part.added", {
+      item_id: item.id,
+      output_index: item.outputIndex,
+      content_index: 0,
+      part: { type: "output_text", text: "", annotations: [] },
+    });
 
-    // 如果配置了代理密钥但没有匹配到任何密钥
-    if (PROXY_ACCESS_KEY_SET.size > 0 && !matchedProxyKey && !authToken && !xApiKey) {
-      return createErrorResponse("Missing or invalid proxy access key", 401, "invalid_proxy_key", "proxy_key");
-    }
+    return item;
 
-    const authTokenIsProxyKey = Boolean(matchedProxyKey) && authToken === matchedProxyKey;
-    const xApiKeyIsProxyKey = Boolean(matchedProxyKey) && xApiKey === matchedProxyKey;
+  };
 
-    // 确定最终使用的 API key，优先级: authToken > xApiKey > Factory轮询
-    let apiKey = "";
-    if (!authTokenIsProxyKey && authToken) {
-      apiKey = authToken;
-    } else if (!xApiKeyIsProxyKey && xApiKey) {
-      apiKey = xApiKey;
-    }
 
-    if (!apiKey) {
-      apiKey = getNextFactoryApiKey() ?? "";
-      if (apiKey) {
-        console.log("使用Factory密钥:", maskKeyForLog(apiKey));
-      }
-    }
 
-    if (!apiKey) {
-      return createErrorResponse("Missing or invalid API key", 401, "invalid_request_error", "invalid_api_key");
-    }
+  (async () => {
 
-    // 解析Claude原生请求
-    const claudeReq = await req.json() as ClaudeRequest;
+    try {
 
-    // 调试：打印原始请求的 system 字段
-    console.log("=== 原始请求调试 ===");
-    console.log("原始 system 类型:", typeof claudeReq.system);
-    if (typeof claudeReq.system === "string") {
-      console.log("原始 system 长度:", claudeReq.system.length);
-      console.log("原始 system 前100字符:", claudeReq.system.substring(0, 100));
-    } else if (Array.isArray(claudeReq.system)) {
-      console.log("原始 system 块数:", claudeReq.system.length);
-      claudeReq.system.forEach((block: any, i: number) => {
-        console.log(`  block[${i}] type=${block.type}, 长度=${block.text?.length || 0}`);
-      });
-    } else {
-      console.log("原始 system 为空或未定义");
-    }
-    console.log("原始 messages 数量:", claudeReq.messages?.length || 0);
+      await writeEvent("response.created", { response: buildResponsesObject(responseId, createdAt, body, [], null, null) });
+      await writeEvent("response.in_progress", { response: buildResponsesObject(responseId, createdAt, body, [], null, null) });
 
-    // 处理系统提示词注入 - 保留原有的 cache_control
-    let systemField = claudeReq.system;
-    let systemBlocks: SystemTextBlock[] = [];
+      await parseSSEStream(chatResp, async ({ data }) => {
 
-    // 合规提示词块（不加缓存，让缓存在用户内容上）
-    const complianceBlocks: SystemTextBlock[] = [
-      { type: "text", text: COMPLIANCE_SYSTEM_PROMPT },
-      { type: "text", text: BUFFER_SYSTEM_PROMPT },
-    ];
+        if (!data || data === "[DONE]") return;
+
+        let chunk: any;
+
+        try {
+
+          chunk = JSON.parse(data);
+
+        } catch {
+
+          return;
 
-    if (systemField) {
-      if (typeof systemField === "string") {
-        // 如果是字符串，先检查是否是需要过滤的内容
-        const lowerText = systemField.toLowerCase();
-        if (!lowerText.startsWith("you are claude code, anthropic's official cli for") &&
-            !lowerText.startsWith("you are an interactive cli tool that helps users")) {
-          // 处理 Claude Code 类的系统提示词
-          const processedText = isCodeAssistantPrompt(systemField) ? systemField.toLowerCase() : systemField;
-          systemBlocks = [
-            ...complianceBlocks,
-            { type: "text", text: processedText, cache_control: { type: "ephemeral" } }
-          ];
-        } else {
-          // 被过滤的内容，只添加合规提示词
-          console.log("过滤掉Claude Code系统提示词:", systemField.substring(0, 50) + "...");
-          complianceBlocks[complianceBlocks.length - 1].cache_control = { type: "ephemeral" };
-          systemBlocks = complianceBlocks;
         }
-      } else if (Array.isArray(systemField)) {
-        // 如果已经是块数组，保留原有结构和 cache_control
-        const filteredBlocks = systemField
-          .filter((block: any) => {
-            if (block.type !== "text") return true; // 保留非文本块
-            const lowerText = (block.text || "").toLowerCase();
-            if (lowerText.startsWith("you are claude code, anthropic's official cli for") ||
-                lowerText.startsWith("you are an interactive cli tool that helps users")) {
-              console.log("过滤掉Claude Code系统提示词:", block.text.substring(0, 50) + "...");
-              return false;
-            }
-            return true;
-          })
-          .map((block: any) => {
-            // 处理 Claude Code 类的系统提示词（小写化）
-            if (block.type === "text" && isCodeAssistantPrompt(block.text || "")) {
-              return { ...block, text: block.text.toLowerCase() };
-            }
-            return block;
+
+        if (chunk.usage) usage = toResponsesUsage(chunk.usage);
+
+        if (chunk.error) {
+
+          failure = { message: chunk.error.message || "Unknown upstream error", code: chunk.error.type || "api_error" };
+
+          return;
+
+        }
+
+        const choice = chunk.choices?.[0];
+
+        if (!choice) return;
+
+        const delta = choice.delta ?? {};
+
+        if (typeof delta.reasoning_content === "string" && delta.reasoning_content) {
+
+          const item = await openReasoningItem();
+
+          item.text += delta.reasoning_content;
+
+          await writeEvent("response.reasoning_summary_text.delta", {
+            item_id: item.id,
+            output_index: item.outputIndex,
+            summary_index: 0,
+            delta: delta.reasoning_content,
           });
 
-        // 检查是否有任何块带有 cache_control
-        const hasExistingCache = filteredBlocks.some((block: any) => block.cache_control);
+        }
 
-        if (filteredBlocks.length > 0) {
-          // 有用户系统提示词
-          if (!hasExistingCache) {
-            // 没有缓存断点，在最后一个块上添加
-            filteredBlocks[filteredBlocks.length - 1] = {
-              ...filteredBlocks[filteredBlocks.length - 1],
-              cache_control: { type: "ephemeral" }
+        if (Array.isArray(delta.thinking_blocks) && delta.thinking_blocks.length) {
+
+          const item = await openReasoningItem();
+
+          item.thinkingBlocks.push(...delta.thinking_blocks);
+
+        }
+
+        if (typeof delta.content === "string" && delta.content) {
+
+          const item = await openMessageItem();
+
+          item.text += delta.content;
+
+          await writeEvent("response.output_text.delta", {
+            item_id: item.id,
+            output_index: item.outputIndex,
+            content_index: 0,
+            delta: delta.content,
+          });
+
+        }
+
+        // 引用属于最近的文本输出项
+        if (Array.isArray(delta.annotations) && openItem?.kind === "message") {
+
+          const item = openItem;
+
+          for (const annotation of delta.annotations) {
+
+            const converted = toResponsesAnnotation(annotation);
+
+            await writeEvent("response.output_text.annotation.added", {
+              item_id: item.id,
+              output_index: item.outputIndex,
+              content_index: 0,
+              annotation_index: item.annotations.length,
+              annotation: converted,
+            });
+
+            item.annotations.push(converted);
+
+          }
+
+        }
+
+        for (const toolDelta of Array.isArray(delta.tool_calls) ? delta.tool_calls : []) {
+
+          const toolIndex = toolDelta.index ?? 0;
+
+          let item = toolItems.get(toolIndex);
+
+          if (!item) {
+
+            await closeOpenItem();
+
+            item = {
+              kind: "function_call",
+              id: `fc_${crypto.randomUUID()}`,
+              outputIndex: output.length,
+              toolIndex,
+              call: {
+                id: toolDelta.id || `call_${crypto.randomUUID()}`,
+                type: "function",
+                function: { name: toolDelta.function?.name ?? "", arguments: "" },
+              },
             };
-            console.log("反代添加缓存断点到系统提示词");
-          } else {
-            console.log("保留 SillyTavern 原有的缓存断点");
+
+            output.push(null);
+            toolItems.set(toolIndex, item);
+            openItem = item;
+
+            await writeEvent("response.output_item.added", {
+              output_index: item.outputIndex,
+              item: buildResponsesFunctionCallItem(item.id, item.call, "in_progress"),
+            });
+
           }
-          systemBlocks = [...complianceBlocks, ...filteredBlocks];
-        } else {
-          // 用户系统提示词为空（如 SillyTavern 发送空数组），在合规提示词上加缓存
-          complianceBlocks[complianceBlocks.length - 1].cache_control = { type: "ephemeral" };
-          systemBlocks = complianceBlocks;
-          console.log("系统提示词为空，在合规提示词上添加缓存断点");
+
+          const argumentsDelta = toolDelta.function?.arguments ?? "";
+
+          if (argumentsDelta) {
+
+            item.call.function.arguments += argumentsDelta;
+
+            await writeEvent("response.function_call_arguments.delta", {
+              item_id: item.id,
+              output_index: item.outputIndex,
+              delta: argumentsDelta,
+            });
+
+          }
+
         }
+
+        if (choice.finish_reason) finishReason = choice.finish_reason;
+
+      });
+
+      await closeOpenItem();
+
+      if (failure) {
+
+        await writeEvent("response.failed", {
+          response: {
+            ...buildResponsesObject(responseId, createdAt, body, output.filter(Boolean), "stop", usage),
+            status: "failed",
+            error: { code: failure.code, message: failure.message },
+          },
+        });
+
+      } else {
+
+        const response = buildResponsesObject(responseId, createdAt, body, output.filter(Boolean), finishReason ?? "stop", usage);
+
+        await writeEvent(response.status === "incomplete" ? "response.incomplete" : "response.completed", { response });
+
+      }
+
+    } catch (e) {
+
+      console.error("Responses 流处理错误:", e);
+
+      try {
+
+        await writeEvent("error", { code: "internal_error", message: `Stream processing error: ${e}`, param: null });
+
+      } catch (writeErr) {
+
+        console.error("无法写入错误信息:", writeErr);
+
       }
+
+    } finally {
+
+      try {
+
+        await writer.close();
+
+      } catch {}
+
+    }
+
+  })();
+
+
+
+  return new Response(readable, {
+
+    headers: {
+
+      "Content-Type": "text/event-stream; charset=utf-8",
+
+      "Cache-Control": "no-cache, no-transform",
+
+      "Connection": "keep-alive",
+
+      "Access-Control-Allow-Origin": "*",
+
+      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+
+      "Access-Control-Allow-Headers": CORS_ALLOW_HEADERS,
+
+    },
+
+  });
+
+}
+
+/* ====== Factory Responses 原生转发 ====== */
+
+// 与 toFactoryAIRequest 一致：合规提示词放在 instructions 最前面，system/developer 消息并入 instructions
+function toFactoryResponsesRequest(body: ResponsesRequest): Record<string, any> {
+
+  const items = typeof body.input === "string"
+    ? [{ role: "user", content: body.input }]
+    : Array.isArray(body.input) ? body.input : [];
+
+  const systemTexts: string[] = [];
+
+  const input: any[] = [];
+
+  for (const item of items) {
+    const isMessage = item?.type === undefined || item?.type === "message";
+    if (isMessage && (item.role === "system" || item.role === "developer")) {
+      const text = renderResponsesContentToText(item.content).trim();
+      if (text) systemTexts.push(text);
     } else {
-      // 如果没有系统提示词，只添加合规提示词并在最后一个上加缓存
-      complianceBlocks[complianceBlocks.length - 1].cache_control = { type: "ephemeral" };
-      systemBlocks = complianceBlocks;
+      input.push(item);
+    }
+  }
+
+  const clientInstructions = typeof body.instructions === "string" ? body.instructions.trim() : "";
+
+  const instructions = [COMPLIANCE_SYSTEM_PROMPT, clientInstructions, ...systemTexts]
+    .filter(Boolean)
+    .join("\n\n");
+
+  // 上游只接受流式且不保存响应，非流式请求由代理聚合
+  return { ...body, input, instructions, stream: true, store: false };
+
+}
+
+// 从上游 Responses SSE 中取出最终的 response 对象
+async function collectResponsesObjectFromSSE(factoryResp: Response, model?: string): Promise<Response> {
+
+  let finalResponse: any | undefined;
+
+  let errorMessage = "";
+
+  let errorType = "api_error";
+
+  await parseSSEStream(factoryResp, ({ data }) => {
+
+    if (!data) return;
+
+    let parsed: any;
+
+    try {
+
+      parsed = JSON.parse(data);
+
+    } catch {
+
+      return;
+
     }
 
-    // SillyTavern 优化：在对话历史中添加缓存断点
-    const messages = claudeReq.messages ? [...claudeReq.messages] : [];
+    switch (parsed?.type) {
 
-    // 检查消息中是否已有缓存断点（SillyTavern 可能已添加）
-    const hasExistingMsgCache = messages.some((msg: any) => {
-      if (Array.isArray(msg.content)) {
-        return msg.content.some((block: any) => block.cache_control);
-      }
-      return false;
-    });
+      case "response.completed":
 
-    if (hasExistingMsgCache) {
-      console.log("保留 SillyTavern 原有的消息缓存断点");
-    } else {
-      // SillyTavern 特殊处理：所有内容合并在一条消息里
-      // 在第一条 user 消息上添加缓存断点（角色卡/设定部分）
-      if (messages.length === 1 && messages[0].role === "user") {
-        const msg = messages[0];
-        if (Array.isArray(msg.content) && msg.content.length > 0) {
-          // 在第一个 content block 上添加缓存（通常是角色卡）
-          const firstBlock = msg.content[0] as any;
-          if (firstBlock && typeof firstBlock === "object") {
-            firstBlock.cache_control = { type: "ephemeral" };
-            console.log("反代添加: 在唯一消息的第一个块上设置缓存断点");
-          }
-        } else if (typeof msg.content === "string") {
-          // 字符串内容，转换为块数组并添加缓存
-          messages[0] = {
-            ...msg,
-            content: [{ type: "text", text: msg.content, cache_control: { type: "ephemeral" } }] as any
-          };
-          console.log("反代添加: 在唯一消息上设置缓存断点（字符串转块）");
-        }
-      }
-      // 多条消息时：在倒数第2个用户消息上设置缓存
-      else if (messages.length >= 4) {
-        let userMsgCount = 0;
-        for (let i = messages.length - 1; i >= 0; i--) {
-          if (messages[i].role === "user") {
-            userMsgCount++;
-            if (userMsgCount === 2) {
-              const msg = messages[i];
-              if (Array.isArray(msg.content) && msg.content.length > 0) {
-                const lastBlock = msg.content[msg.content.length - 1] as any;
-                if (lastBlock && typeof lastBlock === "object") {
-                  lastBlock.cache_control = { type: "ephemeral" };
-                  console.log("反代添加: 在倒数第2个用户消息上设置缓存断点");
-                }
-              } else if (typeof msg.content === "string") {
-                messages[i] = {
-                  ...msg,
-                  content: [{ type: "text", text: msg.content, cache_control: { type: "ephemeral" } }] as any
-                };
-                console.log("反代添加: 在倒数第2个用户消息上设置缓存断点");
-              }
-              break;
-            }
-          }
-        }
-      }
-    }
+      case "response.incomplete":
 
-    // 处理thinking参数 - 修复budgetTokens为null或使用驼峰命名的问题
-    let thinkingConfig: ClaudeThinking | undefined = undefined;
-    if (claudeReq.thinking) {
-      const rawThinking = claudeReq.thinking as any;
-      // 处理驼峰命名的budgetTokens转换为下划线命名的budget_tokens
-      const budgetTokens = rawThinking.budget_tokens ?? rawThinking.budgetTokens;
-
-      // 如果budgetTokens为null、undefined、NaN或无效数字，不添加thinking参数
-      if (budgetTokens === null || budgetTokens === undefined ||
-          (typeof budgetTokens === 'number' && isNaN(budgetTokens)) ||
-          typeof budgetTokens !== 'number') {
-        console.log("thinking.budgetTokens无效，跳过thinking参数");
-        thinkingConfig = undefined;
-      } else {
-        thinkingConfig = {
-          type: "enabled",
-          budget_tokens: budgetTokens
-        };
-      }
-    }
+      case "response.failed":
 
-    // 构建最终的Claude请求，移除top_p和原始thinking参数（A社原生格式不支持top_p）
-    const { top_p, thinking: _rawThinking, messages: _originalMessages, ...restClaudeReq } = claudeReq as any;
-    if (top_p !== undefined) {
-      console.log("移除top_p参数:", top_p);
-    }
+        finalResponse = parsed.response || finalResponse;
 
-    const finalClaudeReq = {
-      ...restClaudeReq,
-      system: systemBlocks,
-      messages, // 使用添加了缓存断点的messages
-      ...(thinkingConfig ? { thinking: thinkingConfig } : {})
-    };
+        break;
 
-    console.log("正在发送Claude API请求 (原生格式)...");
-    console.log("URL: https://app.factory.ai/api/llm/a/v1/messages");
-    console.log("模型:", finalClaudeReq.model);
-    console.log("流式:", finalClaudeReq.stream);
-    console.log("最大tokens:", finalClaudeReq.max_tokens);
-    console.log("对话轮数:", finalClaudeReq.messages.length);
-    console.log("系统提示词数量:", systemBlocks.length);
-    console.log("系统提示词内容:");
-    systemBlocks.forEach((block, index) => {
-      const hasCache = block.cache_control ? " [CACHED]" : "";
-      console.log(`  [${index}]${hasCache}: ${block.text.substring(0, 50)}...`);
-    });
-    // 检查消息中的缓存断点
-    let msgCacheCount = 0;
-    messages.forEach((msg: any, idx: number) => {
-      if (Array.isArray(msg.content)) {
-        msg.content.forEach((block: any) => {
-          if (block.cache_control) {
-            msgCacheCount++;
-            console.log(`  消息[${idx}] ${msg.role} 有缓存断点`);
-          }
-        });
-      }
-    });
-    console.log("消息缓存断点数:", msgCacheCount);
-    console.log("-".repeat(50));
+      case "error":
 
-    // 检测是否是 Claude Opus 4.5 模型（支持 effort 参数）
-    const isOpus45 = finalClaudeReq.model.toLowerCase().includes("opus-4-5") ||
-                     finalClaudeReq.model.toLowerCase().includes("opus-4.5");
-
-    // 只有 Opus 4.5 才添加 effort 参数
-    let finalClaudeReqToSend = finalClaudeReq;
-    // 添加 prompt-caching-2024-07-31 支持提示词缓存
-    let anthropicBetaHeader = "interleaved-thinking-2025-05-14,context-1m-2025-08-07,prompt-caching-2024-07-31";
-
-    if (isOpus45) {
-      finalClaudeReqToSend = {
-        ...finalClaudeReq,
-        output_config: {
-          ...(finalClaudeReq as any).output_config,
-          effort: (finalClaudeReq as any).output_config?.effort ?? "high",
-        },
-      };
-      anthropicBetaHeader += ",effort-2025-11-24";
-      console.log("Opus 4.5 检测到，effort参数:", (finalClaudeReqToSend as any).output_config.effort);
-    }
+      case "response.error": {
 
-    const claudeResp = await fetch("https://app.factory.ai/api/llm/a/v1/messages", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "Authorization": `Bearer ${apiKey}`,
-        "anthropic-beta": anthropicBetaHeader,
-        "anthropic-version": "2023-06-01",
-      },
-      body: JSON.stringify(finalClaudeReqToSend),
-    });
+        const error = parsed.error ?? parsed;
+
+        errorMessage = error.message || JSON.stringify(error) || "Unknown upstream error";
+
+        errorType = error.type || error.code || "api_error";
+
+        console.error("Factory AI Responses 错误:", error);
+
+        break;
+
+      }
 
-    if (!claudeResp.ok) {
-      return await createErrorResponseFromUpstream(claudeResp, "Claude");
     }
 
-    // 直接转发响应，fetchResponseToNodeResponse 会正确处理SSE缓冲
-    const responseHeaders = new Headers(claudeResp.headers);
-    responseHeaders.set("Access-Control-Allow-Origin", "*");
-    responseHeaders.set("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-    responseHeaders.set("Access-Control-Allow-Headers", CORS_ALLOW_HEADERS);
+  });
 
-    return new Response(claudeResp.body, {
-      status: claudeResp.status,
-      headers: responseHeaders,
-    });
+  if (!finalResponse) {
+
+    return createErrorResponse(`Factory AI Error: ${errorMessage || "upstream stream ended without a response"}`, 500, errorType);
 
-  } catch (error: any) {
-    console.error("处理Claude原生请求时发生错误:", error);
-    return createErrorResponse(
-      `Internal Server Error: ${error?.message || String(error)}`,
-      500,
-      "internal_error"
-    );
   }
-}
 
-/* ====== Token 计数端点处理 ====== */
+  if (model) rewriteResponseModel(finalResponse, model);
 
-async function handleTokenCountRequest(req: Request): Promise<Response> {
+  return new Response(JSON.stringify(finalResponse), {
+
+    headers: {
+
+      "Content-Type": "application/json",
+
+      "Access-Control-Allow-Origin": "*",
+
+      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+
+      "Access-Control-Allow-Headers": CORS_ALLOW_HEADERS,
+
+    },
+
+  });
+
+}
+
+async function handleResponsesRequest(req: Request): Promise<Response> {
   try {
-    const authHeaderRaw = req.headers.get("Authorization");
-    const authToken = extractAuthToken(authHeaderRaw);
-    const xApiKey = req.headers.get("x-api-key");
-    const proxyHeaderToken = (req.headers.get(PROXY_KEY_HEADER) ?? "").trim();
+    const auth = resolveOpenAIAuth(req);
+    if (auth instanceof Response) return auth;
+    const { apiKey } = auth;
 
-    let matchedProxyKey: string | null = null;
-    if (proxyHeaderToken) {
-      if (PROXY_ACCESS_KEY_SET.has(proxyHeaderToken)) {
-        matchedProxyKey = proxyHeaderToken;
-      } else {
-        return createErrorResponse("Missing or invalid proxy access key", 401, "invalid_proxy_key", "proxy_key");
-      }
-    }
+    const body = await readJSONBody<ResponsesRequest>(req);
 
-    if (!matchedProxyKey && authToken && PROXY_ACCESS_KEY_SET.has(authToken)) {
-      matchedProxyKey = authToken;
+    if (typeof body?.model !== "string" || !body.model.trim()) {
+      return createErrorResponse("Invalid request: missing 'model' field", 400, "invalid_request_error", "model");
+    }
+    if (typeof body.input !== "string" && !Array.isArray(body.input)) {
+      return createErrorResponse("Invalid request: 'input' must be a string or an array", 400, "invalid_request_error", "input");
     }
 
-    if (PROXY_ACCESS_KEY_SET.size > 0 && !matchedProxyKey && !authToken && !xApiKey) {
-      return createErrorResponse("Missing or invalid proxy access key", 401, "invalid_proxy_key", "proxy_key");
+    // 代理不保存响应（store: false），无法按 id 续接对话
+    if (body.previous_response_id) {
+      throw new InvalidRequestError(
+        "Invalid value for 'previous_response_id': this proxy does not store responses, send the full conversation in 'input'",
+        "previous_response_id",
+        "unsupported_value",
+      );
     }
 
-    const authTokenIsProxyKey = Boolean(matchedProxyKey) && authToken === matchedProxyKey;
+    const clientWantsStream = Boolean(body.stream);
 
-    let apiKey = "";
-    if (xApiKey) {
-      apiKey = xApiKey;
-    } else if (!authTokenIsProxyKey && authToken) {
-      apiKey = authToken;
-    }
+    const route = resolveModelRoute(body.model);
 
-    if (!apiKey) {
-      apiKey = getNextFactoryApiKey() ?? "";
-      if (apiKey) {
-        console.log("使用轮询Factory密钥:", maskKeyForLog(apiKey));
+    // Factory 模型直接走 Responses API，其余模型翻译为 Chat Completions
+    if (route.provider === "factory") {
+
+      const baseReq = toFactoryResponsesRequest(body);
+      const candidates = sameProtocolCandidates(route, (provider) => provider === "factory");
+
+      console.log("正在发送Factory AI Responses请求...");
+      console.log("模型路由:", body.model, "->", describeRoute(route), `(${route.source})`);
+      if (candidates.length > 1) console.log("fallback 候选:", candidates.slice(1).map(describeRoute).join(", "));
+      console.log("流式:", clientWantsStream);
+      console.log("输入项数:", baseReq.input.length);
+      console.log("-".repeat(50));
+
+      const { resp: factoryResp, route: chosen } = await fetchWithFallback(candidates, async (candidate, budget) => {
+        const factoryReq: Record<string, any> = { ...baseReq, model: candidate.model };
+        const appliedDefaults = applyResponsesDefaults(factoryReq, candidate.defaults);
+        if (appliedDefaults.length) console.log("路由默认参数:", appliedDefaults.join(", "));
+        console.log("URL:", candidate.endpoint);
+        console.log("模型:", factoryReq.model);
+
+        return {
+          resp: await fetchUpstream(candidate, candidate.endpoint, {
+            method: "POST",
+            headers: buildRouteHeaders(candidate, apiKey),
+            body: JSON.stringify(factoryReq),
+          }, budget),
+        };
+      }, req.signal);
+
+      if (!factoryResp.ok) {
+        return withProxyProvider(await createErrorResponseFromUpstream(factoryResp, providerLabel(chosen)), chosen);
       }
-    }
 
-    if (!apiKey) {
-      return createErrorResponse("Missing or invalid API key", 401, "invalid_request_error", "invalid_api_key");
+      const rewriteModel = chosen.model !== body.model;
+
+      // 上游已经是 Responses SSE，直接转发
+      if (clientWantsStream) {
+        const passthrough = rewriteModel ? rewriteSSEModel(factoryResp, body.model) : factoryResp;
+        return withProxyProvider(new Response(passthrough.body, {
+          headers: {
+            "Content-Type": "text/event-stream; charset=utf-8",
+            "Cache-Control": "no-cache, no-transform",
+            "Connection": "keep-alive",
+            "Access-Control-Allow-Origin": "*",
+            "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+            "Access-Control-Allow-Headers": CORS_ALLOW_HEADERS,
+          },
+        }), chosen);
+      }
+
+      return withProxyProvider(await collectResponsesObjectFromSSE(factoryResp, rewriteModel ? body.model : undefined), chosen);
+
     }
 
-    // 解析请求体并直接转发
-    const requestBody = await req.json();
+    // 其他模型：翻译为 Chat Completions 请求，复用 handleOpenAIRequest 的全部转换逻辑
+    const openaiReq = responsesRequestToOpenAI(body);
 
-    console.log("=== Token 计数请求 ===");
-    console.log("模型:", requestBody.model);
-    console.log("消息数:", requestBody.messages?.length || 0);
+    console.log("Responses 请求转换为 Chat Completions:", body.model);
 
-    const countResp = await fetch("https://app.factory.ai/api/llm/a/v1/messages/count_tokens", {
+    const chatResp = await handleOpenAIRequest(new Request(new URL("/v1/chat/completions", req.url), {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
-        "Authorization": `Bearer ${apiKey}`,
-        "anthropic-version": "2023-06-01",
+        Authorization: `Bearer ${apiKey}`,
       },
-      body: JSON.stringify(requestBody),
-    });
+      body: JSON.stringify(openaiReq),
+      signal: req.signal,
+    }));
 
-    if (!countResp.ok) {
-      return await createErrorResponseFromUpstream(countResp, "Claude");
+    // 错误体格式两边一致，直接返回
+    if (!chatResp.ok) return chatResp;
+
+    const servedBy = servedUpstreamOf(chatResp);
+
+    if (clientWantsStream) {
+      return withProxyProvider(await pipeChatStreamToResponses(chatResp, body), servedBy);
     }
 
-    const result = await countResp.json();
-    console.log("Token 计数结果:", result);
+    const completion = await chatResp.json();
 
-    return new Response(JSON.stringify(result), {
-      status: 200,
+    return withProxyProvider(new Response(JSON.stringify(chatCompletionToResponses(completion, body)), {
       headers: {
         "Content-Type": "application/json",
         "Access-Control-Allow-Origin": "*",
         "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
         "Access-Control-Allow-Headers": CORS_ALLOW_HEADERS,
       },
-    });
+    }), servedBy);
 
   } catch (error: any) {
-    console.error("处理Token计数请求时发生错误:", error);
-    return createErrorResponse(
-      `Internal Server Error: ${error?.message || String(error)}`,
-      500,
-      "internal_error"
-    );
+    if (error instanceof InvalidRequestError) {
+      console.warn("请求参数无效:", error.message);
+      return createErrorResponse(error.message, 400, "invalid_request_error", error.code, error.param);
+    }
+    if (req.signal.aborted) return clientDisconnectedResponse();
+    console.error("处理Responses请求时发生错误:", error);
+    return createErrorResponse(`Internal Server Error: ${error?.message || String(error)}`, 500, "internal_error");
   }
 }
 
-/* ====== OpenAI兼容格式处理 ====== */
+/* ====== Claude 原生端点：非 Claude 模型转换 ====== */
 
-async function handleOpenAIRequest(req: Request): Promise<Response> {
-  try {
-    const authHeaderRaw = req.headers.get("Authorization");
-    const authToken = extractAuthToken(authHeaderRaw);
-    const proxyHeaderToken = (req.headers.get(PROXY_KEY_HEADER) ?? "").trim();
+// thinking 预算 -> reasoning_effort，与 REASONING_EFFORT_BUDGETS 的档位对应
+function thinkingBudgetToEffort(budget: number): string {
+  if (budget <= REASONING_EFFORT_BUDGETS.low) return "low";
+  if (budget <= REASONING_EFFORT_BUDGETS.medium) return "medium";
+  return "high";
+}
 
-    let matchedProxyKey: string | null = null;
-    if (proxyHeaderToken) {
-      if (PROXY_ACCESS_KEY_SET.has(proxyHeaderToken)) {
-        matchedProxyKey = proxyHeaderToken;
+// Claude 内容块 -> Chat Completions 内容块（tool_result 由调用方单独处理）
+function convertClaudeBlockToOpenAIPart(block: any): OpenAIContentPart | undefined {
+
+  switch (block?.type) {
+
+    case "text":
+      return { type: "text", text: block.text ?? "" };
+
+    case "image":
+      if (block.source?.type === "base64") {
+        return { type: "image_url", image_url: { url: toDataURL(block.source.media_type, block.source.data) } };
+      }
+      if (block.source?.type === "url") {
+        return { type: "image_url", image_url: { url: block.source.url } };
+      }
+      throw new InvalidRequestError(`Invalid value for 'messages': unsupported image source '${block.source?.type}'`, "messages", "unsupported_value");
+
+    case "document":
+      if (block.source?.type === "base64") {
+        return {
+          type: "file",
+          file: { file_data: toDataURL(block.source.media_type, block.source.data), filename: block.title || "document.pdf" },
+        };
+      }
+      if (block.source?.type === "text") {
+        return { type: "text", text: block.title ? `[${block.title}]\n${block.source.data}` : block.source.data };
+      }
+      throw new InvalidRequestError(`Invalid value for 'messages': unsupported document source '${block.source?.type}'`, "messages", "unsupported_value");
+
+    default:
+      return undefined;
+
+  }
+
+}
+
+function claudeMessagesToOpenAI(messages: ClaudeMessage[]): OpenAIMessage[] {
+
+  const result: OpenAIMessage[] = [];
+
+  for (const msg of messages) {
+
+    if (typeof msg.content === "string") {
+      result.push({ role: msg.role, content: msg.content });
+      continue;
+    }
+
+    const blocks: any[] = Array.isArray(msg.content) ? msg.content : [];
+
+    if (msg.role === "assistant") {
+
+      const parts: OpenAIContentPart[] = [];
+      const toolCalls: OpenAIToolCall[] = [];
+      const reasoningItems: FactoryAIReasoningItem[] = [];
+
+      for (const block of blocks) {
+        if (block.type === "tool_use") {
+          toolCalls.push({
+            id: block.id,
+            type: "function",
+            function: { name: block.name, arguments: JSON.stringify(block.input ?? {}) },
+          });
+        } else if (block.type === "thinking") {
+          // 只有本代理编码在 signature 中的 reasoning 项能交还上游，其余 thinking 内容无法被其他模型使用
+          reasoningItems.push(...(decodeOpaqueJSON(REASONING_ITEMS_PREFIX, block.signature) ?? []));
+        } else {
+          const part = convertClaudeBlockToOpenAIPart(block);
+          if (part) parts.push(part);
+        }
+      }
+
+      result.push({
+        role: "assistant",
+        content: parts.length ? parts : toolCalls.length ? null : "",
+        ...(toolCalls.length ? { tool_calls: toolCalls } : {}),
+        ...(reasoningItems.length ? { reasoning_items: reasoningItems } : {}),
+      });
+      continue;
+
+    }
+
+    // user 回合：tool_result 必须紧跟在 assistant 的 tool_calls 之后，其余内容放在其后的 user 消息中
+    const parts: OpenAIContentPart[] = [];
+
+    for (const block of blocks) {
+      if (block.type === "tool_result") {
+        const content = typeof block.content === "string"
+          ? block.content
+          : (Array.isArray(block.content) ? block.content : [])
+              .map(convertClaudeBlockToOpenAIPart)
+              .filter((part: OpenAIContentPart | undefined): part is OpenAIContentPart => part !== undefined);
+        result.push({
+          role: "tool",
+          tool_call_id: block.tool_use_id,
+          content,
+          ...(block.is_error ? { is_error: true } : {}),
+        });
       } else {
-        return createErrorResponse("Missing or invalid proxy access key", 401, "invalid_proxy_key", "proxy_key");
+        const part = convertClaudeBlockToOpenAIPart(block);
+        if (part) parts.push(part);
       }
     }
 
-    if (!matchedProxyKey && authToken && PROXY_ACCESS_KEY_SET.has(authToken)) {
-      matchedProxyKey = authToken;
-    }
+    if (parts.length) result.push({ role: "user", content: parts });
 
-    if (PROXY_ACCESS_KEY_SET.size > 0 && !matchedProxyKey && !authToken) {
-      return createErrorResponse("Missing or invalid proxy access key", 401, "invalid_proxy_key", "proxy_key");
-    }
+  }
 
-    const authTokenIsProxyKey = Boolean(matchedProxyKey) && authToken === matchedProxyKey;
+  return result;
 
-    let apiKey = "";
-    if (!authTokenIsProxyKey && authToken) {
-      apiKey = authToken;
-    }
+}
 
-    if (!apiKey) {
-      apiKey = getNextFactoryApiKey() ?? "";
-      if (apiKey) {
-        console.log("????Factory??:", maskKeyForLog(apiKey));
-      }
-    }
+function claudeRequestToOpenAI(claudeReq: any): OpenAIRequest {
 
-    if (!apiKey) {
-      return createErrorResponse("Missing or invalid Authorization header", 401, "invalid_request_error", "invalid_api_key");
-    }
+  const messages: OpenAIMessage[] = [];
 
-    const parsedFromMultipart = await tryParseMultipartToOpenAI(req);
+  const systemTexts = typeof claudeReq.system === "string"
+    ? [claudeReq.system]
+    : Array.isArray(claudeReq.system) ? claudeReq.system.map((block: any) => block?.text ?? "") : [];
 
-    const openaiReq: OpenAIRequest = parsedFromMultipart ?? (await req.json());
+  for (const text of systemTexts) {
+    if (text.trim() && !isClaudeCodeIdentityPrompt(text)) messages.push({ role: "system", content: text });
+  }
 
-    if (typeof openaiReq.model !== "string" || !openaiReq.model.trim()) {
-      return createErrorResponse("Invalid request: missing 'model' field", 400, "invalid_request_error", "model");
-    }
-    if (!Array.isArray(openaiReq.messages)) {
-      return createErrorResponse("Invalid request: 'messages' must be an array", 400, "invalid_request_error", "messages");
-    }
+  messages.push(...claudeMessagesToOpenAI(Array.isArray(claudeReq.messages) ? claudeReq.messages : []));
 
-    openaiReq.messages = ensureCompliancePrompts(openaiReq.messages ?? []);
+  const openaiReq: OpenAIRequest = {
+    model: claudeReq.model,
+    messages,
+    stream: Boolean(claudeReq.stream),
+    max_tokens: claudeReq.max_tokens,
+  };
 
-    const clientWantsStream = Boolean(openaiReq.stream);
+  if (claudeReq.stream) openaiReq.stream_options = { include_usage: true };
 
-    const isBedrock = isBedrockModel(openaiReq.model);
+  if (claudeReq.temperature !== undefined) openaiReq.temperature = claudeReq.temperature;
 
-    const isVertex = isVertexModel(openaiReq.model);
+  if (claudeReq.top_p !== undefined) openaiReq.top_p = claudeReq.top_p;
 
-    const isGemini = isGeminiModel(openaiReq.model);
+  if (Array.isArray(claudeReq.stop_sequences) && claudeReq.stop_sequences.length) openaiReq.stop = claudeReq.stop_sequences;
 
-    const effectiveModel = isBedrock ? stripBedrockPrefix(openaiReq.model) :
-                          isVertex ? stripVertexPrefix(openaiReq.model) : openaiReq.model;
+  if (claudeReq.metadata?.user_id) openaiReq.user = claudeReq.metadata.user_id;
 
-    const isClaude = !isBedrock && !isVertex && !isGemini && isClaudeModel(effectiveModel);
+  // thinking 预算 / Opus effort -> reasoning_effort
+  const budget = claudeReq.thinking?.budget_tokens ?? claudeReq.thinking?.budgetTokens;
+  if (typeof claudeReq.output_config?.effort === "string") {
+    openaiReq.reasoning_effort = claudeReq.output_config.effort;
+  } else if (claudeReq.thinking?.type === "enabled" && typeof budget === "number") {
+    openaiReq.reasoning_effort = thinkingBudgetToEffort(budget);
+  }
 
-    const hasThinking = isClaudeThinkingModel(effectiveModel);
+  if (Array.isArray(claudeReq.tools)) {
+    const functions = claudeReq.tools
+      .filter((tool: any) => {
+        // 服务端工具（web_search 等）只有 Claude 上游能执行
+        if (tool?.input_schema) return true;
+        console.warn("非 Claude 模型忽略服务端工具:", tool?.type || tool?.name);
+        return false;
+      })
+      .map((tool: any) => ({
+        type: "function",
+        function: {
+          name: tool.name,
+          ...(tool.description ? { description: tool.description } : {}),
+          parameters: tool.input_schema,
+        },
+      }));
+    if (functions.length) openaiReq.tools = functions;
+  }
 
-    // Gemini模型处理 - 直接转发到Factory AI的OpenAI兼容端点
-    if (isGemini) {
-      // 默认添加 reasoning_effort 参数
-      const geminiReqBody = {
-        ...openaiReq,
-        reasoning_effort: openaiReq.reasoning_effort ?? "high",
-      };
+  const toolChoice = claudeReq.tool_choice;
+  if (toolChoice?.type === "auto") {
+    openaiReq.tool_choice = "auto";
+  } else if (toolChoice?.type === "any") {
+    openaiReq.tool_choice = "required";
+  } else if (toolChoice?.type === "none") {
+    openaiReq.tool_choice = "none";
+  } else if (toolChoice?.type === "tool") {
+    openaiReq.tool_choice = { type: "function", function: { name: toolChoice.name } };
+  }
+  if (toolChoice?.disable_parallel_tool_use === true) openaiReq.parallel_tool_calls = false;
 
-      console.log("正在发送Gemini API请求...");
-      console.log("URL: https://app.factory.ai/api/llm/o/v1/chat/completions");
-      console.log("模型:", geminiReqBody.model);
-      console.log("流式:", clientWantsStream);
-      console.log("reasoning_effort:", geminiReqBody.reasoning_effort);
-      console.log("对话轮数:", geminiReqBody.messages.length);
-      console.log("-".repeat(50));
+  return openaiReq;
 
-      const geminiResp = await fetch("https://app.factory.ai/api/llm/o/v1/chat/completions", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          "Authorization": `Bearer ${apiKey}`,
-          "x-api-provider": "google",
-        },
-        body: JSON.stringify(geminiReqBody),
-      });
+}
 
-      if (!geminiResp.ok) {
-        return await createErrorResponseFromUpstream(geminiResp, "Gemini");
-      }
+// OpenAI finish_reason -> Claude stop_reason
+function mapFinishReasonToClaude(finishReason: string | null | undefined, stopSequence?: string | null): string {
+  switch (finishReason) {
+    case "length":
+      return "max_tokens";
+    case "tool_calls":
+      return "tool_use";
+    case "content_filter":
+      return "refusal";
+    default:
+      return stopSequence ? "stop_sequence" : "end_turn";
+  }
+}
 
-      // 直接转发响应，因为已经是OpenAI格式
-      if (clientWantsStream) {
-        return new Response(geminiResp.body, {
-          headers: {
-            "Content-Type": "text/event-stream",
-            "Cache-Control": "no-cache",
-            "Connection": "keep-alive",
-            "Access-Control-Allow-Origin": "*",
-            "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-            "Access-Control-Allow-Headers": CORS_ALLOW_HEADERS,
-          },
-        });
-      } else {
-        const geminiData = await geminiResp.json();
-        return new Response(JSON.stringify(geminiData), {
-          headers: {
-            "Content-Type": "application/json",
-            "Access-Control-Allow-Origin": "*",
-            "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
-            "Access-Control-Allow-Headers": CORS_ALLOW_HEADERS,
-          },
-        });
-      }
-    }
+// OpenAI usage -> Claude usage：Claude 的 input_tokens 不含缓存命中部分
+function openAIUsageToClaude(usage: any) {
+  const cachedTokens = usage?.prompt_tokens_details?.cached_tokens ?? 0;
+  return {
+    input_tokens: Math.max((usage?.prompt_tokens ?? 0) - cachedTokens, 0),
+    output_tokens: usage?.completion_tokens ?? 0,
+    cache_read_input_tokens: cachedTokens,
+  };
+}
+
+function openAIToClaudeNonStream(completion: any, model: string) {
 
-    // Bedrock模型处理
+  const choice = completion?.choices?.[0];
 
-    if (isBedrock) {
+  const message = choice?.message ?? {};
 
-      const bedrockOpenAIReq: OpenAIRequest = {
+  const content: any[] = [];
 
-        ...openaiReq,
+  if (message.reasoning_content || message.reasoning_items?.length) {
+    content.push({
+      type: "thinking",
+      thinking: message.reasoning_content ?? "",
+      signature: message.reasoning_items?.length ? encodeOpaqueJSON(REASONING_ITEMS_PREFIX, message.reasoning_items) : "",
+    });
+  }
 
-        model: effectiveModel,
+  if (typeof message.content === "string" && message.content) {
+    content.push({ type: "text", text: message.content });
+  }
 
-      };
+  for (const call of message.tool_calls ?? []) {
+    content.push({ type: "tool_use", id: call.id, name: call.function?.name, input: parseToolArguments(call.function?.arguments) });
+  }
 
-      const bedrockReq = toClaudeRequest(bedrockOpenAIReq);
+  return {
+    id: `msg_${crypto.randomUUID()}`,
+    type: "message",
+    role: "assistant",
+    model,
+    content,
+    stop_reason: mapFinishReasonToClaude(choice?.finish_reason, choice?.stop_sequence),
+    stop_sequence: choice?.stop_sequence ?? null,
+    usage: openAIUsageToClaude(completion?.usage),
+  };
 
+}
 
+/* ====== Chat Completions 流式 -> Claude SSE ====== */
 
-      console.log("正在发送Bedrock API请求...");
+// 与 Responses 转换相同：同一时刻只有一个内容块处于打开状态
+async function pipeChatStreamToClaude(chatResp: Response, model: string): Promise<Response> {
 
-      console.log("URL: https://app.factory.ai/api/llm/a/v1/messages");
+  const { readable, writable } = new TransformStream();
 
-      console.log("原始模型:", openaiReq.model);
+  const writer = writable.getWriter();
 
-      console.log("实际模型:", bedrockReq.model);
+  const encoder = new TextEncoder();
 
-      console.log("思考模式:", hasThinking ? "已启用 (16k tokens)" : "未启用");
 
-      console.log("流式:", bedrockReq.stream);
 
-      console.log("最大tokens:", bedrockReq.max_tokens);
+  type OpenBlock =
+    | { kind: "thinking"; index: number; reasoningItems: FactoryAIReasoningItem[] }
+    | { kind: "text"; index: number }
+    | { kind: "tool_use"; index: number; toolIndex: number };
 
-      console.log("对话轮数:", bedrockReq.messages.length);
+  let openBlock: OpenBlock | undefined;
 
-      if (hasThinking) {
+  let nextBlockIndex = 0;
 
-        console.log("Thinking配置:", JSON.stringify(bedrockReq.thinking));
+  const toolBlocks = new Map<number, Extract<OpenBlock, { kind: "tool_use" }>>();
 
-      }
+  let finishReason: string | null = null;
 
-      console.log("模型提供商: bedrock");
+  let stopSequence: string | null = null;
 
-      console.log("-".repeat(50));
+  let usage: any;
 
+  let failure: string | undefined;
 
 
-      const bedrockResp = await fetch("https://app.factory.ai/api/llm/a/v1/messages", {
 
-        method: "POST",
+  const writeEvent = async (type: string, payload: Record<string, unknown>) => {
 
-        headers: {
+    await writer.write(encoder.encode(`event: ${type}\ndata: ${JSON.stringify({ type, ...payload })}\n\n`));
 
-          "Content-Type": "application/json",
+  };
 
-          "Authorization": `Bearer ${apiKey}`,
+  const closeOpenBlock = async () => {
 
-          "anthropic-beta": "context-1m-2025-08-07",
+    const block = openBlock;
 
-          "anthropic-version": "2023-06-01",
+    if (!block) return;
 
-          "x-api-provider": "bedrock_anthropic",
+    openBlock = undefined;
 
+    // Claude 客户端要求 thinking 块以 signature_delta 结束
+    if (block.kind === "thinking") {
+      await writeEvent("content_block_delta", {
+        index: block.index,
+        delta: {
+          type: "signature_delta",
+          signature: block.reasoningItems.length ? encodeOpaqueJSON(REASONING_ITEMS_PREFIX, block.reasoningItems) : "",
         },
+      });
+    }
 
-        body: JSON.stringify(bedrockReq),
+    await writeEvent("content_block_stop", { index: block.index });
 
-      });
+  };
 
+  const openThinkingBlock = async () => {
 
+    if (openBlock?.kind === "thinking") return openBlock;
 
-      if (!bedrockResp.ok) {
+    await closeOpenBlock();
 
-        return await createErrorResponseFromUpstream(bedrockResp, "Bedrock");
+    const block: OpenBlock = { kind: "thinking", index: nextBlockIndex++, reasoningItems: [] };
 
-      }
+    openBlock = block;
 
+    await writeEvent("content_block_start", { index: block.index, content_block: { type: "thinking", thinking: "", signature: "" } });
 
+    return block;
 
-      if (clientWantsStream) {
+  };
 
-        return await pipeClaudeStreamToClient(bedrockResp, openaiReq.model);
+  // Chat Completions 通常只在最后一个 chunk 返回 usage（include_usage），不能为此缓冲整个流：
+  // message_start 推迟到第一个 chunk，只能带上此时已有的用量，完整的 input_tokens 在最终的 message_delta 中
+  let messageStarted = false;
 
-      } else {
+  const writeMessageStart = async () => {
 
-        const bedrockData = await bedrockResp.json();
+    if (messageStarted) return;
 
-        return new Response(JSON.stringify(claudeToOpenAINonStream(bedrockData, openaiReq.model)), {
+    messageStarted = true;
 
-          headers: {
+    await writeEvent("message_start", {
+      message: {
+        id: `msg_${crypto.randomUUID()}`,
+        type: "message",
+        role: "assistant",
+        model,
+        content: [],
+        stop_reason: null,
+        stop_sequence: null,
+        usage: { ...openAIUsageToClaude(usage), output_tokens: 0 },
+      },
+    });
 
-            "Content-Type": "application/json",
+  };
 
-            "Access-Control-Allow-Origin": "*",
 
-            "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
 
-            "Access-Control-Allow-Headers": CORS_ALLOW_HEADERS,
+  (async () => {
 
-          },
+    try {
 
-        });
+      await parseSSEStream(chatResp, async ({ data }) => {
 
-      }
+        if (!data || data === "[DONE]") return;
 
-    }
+        let chunk: any;
 
+        try {
 
+          chunk = JSON.parse(data);
 
-    // Vertex模型处理
+        } catch {
 
-    if (isVertex) {
+          return;
 
-      const vertexOpenAIReq: OpenAIRequest = {
+        }
 
-        ...openaiReq,
+        if (chunk.usage) usage = chunk.usage;
 
-        model: effectiveModel,
+        await writeMessageStart();
 
-      };
+        if (chunk.error) {
 
-      const vertexReq = toClaudeRequest(vertexOpenAIReq);
+          failure = chunk.error.message || "Unknown upstream error";
 
+          return;
 
+        }
 
-      console.log("正在发送Vertex API请求...");
+        const choice = chunk.choices?.[0];
 
-      console.log("URL: https://app.factory.ai/api/llm/a/v1/messages");
+        if (!choice) return;
 
-      console.log("原始模型:", openaiReq.model);
+        const delta = choice.delta ?? {};
 
-      console.log("实际模型:", vertexReq.model);
+        if (typeof delta.reasoning_content === "string" && delta.reasoning_content) {
 
-      console.log("思考模式:", hasThinking ? "已启用 (16k tokens)" : "未启用");
+          const block = await openThinkingBlock();
 
-      console.log("流式:", vertexReq.stream);
+          await writeEvent("content_block_delta", { index: block.index, delta: { type: "thinking_delta", thinking: delta.reasoning_content } });
 
-      console.log("最大tokens:", vertexReq.max_tokens);
+        }
 
-      console.log("对话轮数:", vertexReq.messages.length);
+        if (Array.isArray(delta.reasoning_items) && delta.reasoning_items.length) {
 
-      if (hasThinking) {
+          const block = await openThinkingBlock();
 
-        console.log("Thinking配置:", JSON.stringify(vertexReq.thinking));
+          block.reasoningItems.push(...delta.reasoning_items);
 
-      }
+        }
 
-      console.log("模型提供商: vertex");
+        if (typeof delta.content === "string" && delta.content) {
 
-      console.log("-".repeat(50));
+          if (openBlock?.kind !== "text") {
 
+            await closeOpenBlock();
 
+            openBlock = { kind: "text", index: nextBlockIndex++ };
 
-      const vertexResp = await fetch("https://app.factory.ai/api/llm/a/v1/messages", {
+            await writeEvent("content_block_start", { index: openBlock.index, content_block: { type: "text", text: "" } });
 
-        method: "POST",
+          }
 
-        headers: {
+          await writeEvent("content_block_delta", { index: openBlock.index, delta: { type: "text_delta", text: delta.content } });
 
-          "Content-Type": "application/json",
+        }
 
-          "Authorization": `Bearer ${apiKey}`,
+        for (const toolDelta of Array.isArray(delta.tool_calls) ? delta.tool_calls : []) {
 
-          "anthropic-beta": "context-1m-2025-08-07",
+          const toolIndex = toolDelta.index ?? 0;
 
-          "anthropic-version": "2023-06-01",
+          let block = toolBlocks.get(toolIndex);
 
-          "x-api-provider": "vertex_anthropic",
+          if (!block) {
 
-        },
+            await closeOpenBlock();
 
-        body: JSON.stringify(vertexReq),
+            block = { kind: "tool_use", index: nextBlockIndex++, toolIndex };
 
-      });
+            toolBlocks.set(toolIndex, block);
 
+            openBlock = block;
 
+            await writeEvent("content_block_start", {
+              index: block.index,
+              content_block: {
+                type: "tool_use",
+                id: toolDelta.id || `toolu_${crypto.randomUUID()}`,
+                name: toolDelta.function?.name ?? "",
+                input: {},
+              },
+            });
 
-      if (!vertexResp.ok) {
+          }
 
-        return await createErrorResponseFromUpstream(vertexResp, "Vertex");
+          const argumentsDelta = toolDelta.function?.arguments ?? "";
 
-      }
+          if (argumentsDelta) {
 
+            await writeEvent("content_block_delta", { index: block.index, delta: { type: "input_json_delta", partial_json: argumentsDelta } });
 
+          }
 
-      if (clientWantsStream) {
+        }
 
-        return await pipeClaudeStreamToClient(vertexResp, openaiReq.model);
+        if (choice.finish_reason) {
 
-      } else {
+          finishReason = choice.finish_reason;
 
-        const vertexData = await vertexResp.json();
+          stopSequence = choice.stop_sequence ?? null;
 
-        return new Response(JSON.stringify(claudeToOpenAINonStream(vertexData, openaiReq.model)), {
+        }
 
-          headers: {
+      });
 
-            "Content-Type": "application/json",
+      await writeMessageStart();
 
-            "Access-Control-Allow-Origin": "*",
+      await closeOpenBlock();
 
-            "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+      if (failure) {
 
-            "Access-Control-Allow-Headers": CORS_ALLOW_HEADERS,
+        await writeEvent("error", { error: { type: "api_error", message: failure } });
 
-          },
+      } else {
 
+        await writeEvent("message_delta", {
+          delta: { stop_reason: mapFinishReasonToClaude(finishReason, stopSequence), stop_sequence: stopSequence },
+          usage: openAIUsageToClaude(usage),
         });
 
+        await writeEvent("message_stop", {});
+
       }
 
-    }
+    } catch (e) {
 
+      console.error("Claude 格式流处理错误:", e);
+
+      try {
 
+        await writeEvent("error", { error: { type: "api_error", message: `Stream processing error: ${e}` } });
 
-    // Claude模型处理
+      } catch (writeErr) {
 
-    if (isClaude) {
-      // 标准模式：进行格式转换
-      const claudeReq = toClaudeRequest(openaiReq);
-      const hasSearch = isClaudeSearchModel(openaiReq.model);
+        console.error("无法写入错误信息:", writeErr);
 
-      console.log("正在发送Claude API请求...");
-      console.log("URL: https://app.factory.ai/api/llm/a/v1/messages");
-      console.log("原始模型:", openaiReq.model);
-      console.log("实际模型:", claudeReq.model);
-      console.log("思考模式:", hasThinking ? "已启用 (16k tokens)" : "未启用");
-      console.log("搜索模式:", hasSearch ? "已启用 (web_search)" : "未启用");
-      console.log("流式:", claudeReq.stream);
-      console.log("最大tokens:", claudeReq.max_tokens);
-      console.log("对话轮数:", claudeReq.messages.length);
-      if (claudeReq.tools && claudeReq.tools.length > 0) {
-        console.log("工具数量:", claudeReq.tools.length);
-        console.log("工具列表:", claudeReq.tools.map((t: any) => t.name).join(", "));
       }
-      if (hasThinking) {
-        console.log("Thinking配置:", JSON.stringify(claudeReq.thinking));
-      }
-      console.log("-".repeat(50));
 
-      const claudeResp = await fetch("https://app.factory.ai/api/llm/a/v1/messages", {
-
-        method: "POST",
+    } finally {
 
-        headers: {
+      try {
 
-          "Content-Type": "application/json",
+        await writer.close();
 
-          "Authorization": `Bearer ${apiKey}`,
+      } catch {}
 
-          "anthropic-beta": "context-1m-2025-08-07",
+    }
 
-          "anthropic-version": "2023-06-01",
+  })();
 
-        },
 
-        body: JSON.stringify(claudeReq),
 
-      });
+  return new Response(readable, {
 
+    headers: {
 
+      "Content-Type": "text/event-stream; charset=utf-8",
 
-      if (!claudeResp.ok) {
+      "Cache-Control": "no-cache, no-transform",
 
-        return await createErrorResponseFromUpstream(claudeResp, "Claude");
+      "Connection": "keep-alive",
 
-      }
+      "Access-Control-Allow-Origin": "*",
 
+      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
 
+      "Access-Control-Allow-Headers": CORS_ALLOW_HEADERS,
 
-      if (clientWantsStream) {
+    },
 
-        return await pipeClaudeStreamToClient(claudeResp, openaiReq.model);
+  });
 
-      } else {
+}
 
-        const claudeData = await claudeResp.json();
+// 转换为 Chat Completions 请求，复用 handleOpenAIRequest 的全部上游处理
+async function handleNonClaudeNativeRequest(claudeReq: any, apiKey: string, req: Request): Promise<Response> {
 
-        return new Response(JSON.stringify(claudeToOpenAINonStream(claudeData, openaiReq.model)), {
+  const openaiReq = claudeRequestToOpenAI(claudeReq);
 
-          headers: {
+  console.log("Claude 格式请求转换为 Chat Completions:", claudeReq.model);
 
-            "Content-Type": "application/json",
+  const chatResp = await handleOpenAIRequest(new Request(new URL("/v1/chat/completions", req.url), {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Authorization: `Bearer ${apiKey}`,
+    },
+    body: JSON.stringify(openaiReq),
+    signal: req.signal,
+  }));
 
-            "Access-Control-Allow-Origin": "*",
+  const servedBy = servedUpstreamOf(chatResp);
 
-            "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+  if (!chatResp.ok) return withProxyProvider(await openAIErrorResponseToAnthropic(chatResp), servedBy);
 
-            "Access-Control-Allow-Headers": CORS_ALLOW_HEADERS,
+  if (openaiReq.stream) {
+    return withProxyProvider(await pipeChatStreamToClaude(chatResp, claudeReq.model), servedBy);
+  }
 
-          },
+  const completion = await chatResp.json();
 
-        });
+  return withProxyProvider(new Response(JSON.stringify(openAIToClaudeNonStream(completion, claudeReq.model)), {
+    headers: {
+      "Content-Type": "application/json",
+      "Access-Control-Allow-Origin": "*",
+      "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+      "Access-Control-Allow-Headers": CORS_ALLOW_HEADERS,
+    },
+  }), servedBy);
 
-      }
+}
 
-    }
 
 
+/* ====== 模型列表 ====== */
 
-    // Factory AI模型处理
+interface ModelCapabilities {
+  context_window: number;
+  max_output_tokens: number;
+  vision: boolean;
+  tools: boolean;
+  thinking: boolean;
+  web_search: boolean;
+}
 
-    const factoryReq = toFactoryAIRequest(openaiReq, true);
+interface BaseModelInfo {
+  id: string;
+  display_name: string;
+  owned_by: string;
+  released: string;
+  context_window: number;
+  max_output_tokens: number;
+  vision: boolean;
+  thinking: boolean;
+}
 
+interface ModelCatalogEntry {
+  id: string;
+  display_name: string;
+  owned_by: string;
+  created: number;
+  capabilities: ModelCapabilities;
+}
 
+// 基础模型；Claude 的 1M 上下文依赖代理默认发送的 context-1m beta
+const BASE_MODELS: BaseModelInfo[] = [
+  { id: "claude-opus-4-5-20251101", display_name: "Claude Opus 4.5", owned_by: "anthropic", released: "2025-11-01", context_window: 200000, max_output_tokens: 64000, vision: true, thinking: true },
+  { id: "claude-sonnet-4-5-20250929", display_name: "Claude Sonnet 4.5", owned_by: "anthropic", released: "2025-09-29", context_window: 1000000, max_output_tokens: 64000, vision: true, thinking: true },
+  { id: "claude-haiku-4-5-20251001", display_name: "Claude Haiku 4.5", owned_by: "anthropic", released: "2025-10-01", context_window: 200000, max_output_tokens: 64000, vision: true, thinking: true },
+  { id: "claude-opus-4-1-20250805", display_name: "Claude Opus 4.1", owned_by: "anthropic", released: "2025-08-05", context_window: 200000, max_output_tokens: 32000, vision: true, thinking: true },
+  { id: "claude-sonnet-4-20250514", display_name: "Claude Sonnet 4", owned_by: "anthropic", released: "2025-05-14", context_window: 1000000, max_output_tokens: 64000, vision: true, thinking: true },
+  { id: "gpt-5", display_name: "GPT-5", owned_by: "openai", released: "2025-08-07", context_window: 400000, max_output_tokens: 128000, vision: true, thinking: true },
+  { id: "gpt-5-codex", display_name: "GPT-5 Codex", owned_by: "openai", released: "2025-09-15", context_window: 400000, max_output_tokens: 128000, vision: true, thinking: true },
+  { id: "gpt-5.1", display_name: "GPT-5.1", owned_by: "openai", released: "2025-11-13", context_window: 400000, max_output_tokens: 128000, vision: true, thinking: true },
+  { id: "gpt-5.1-codex", display_name: "GPT-5.1 Codex", owned_by: "openai", released: "2025-11-13", context_window: 400000, max_output_tokens: 128000, vision: true, thinking: true },
+  { id: "gemini-2.5-pro", display_name: "Gemini 2.5 Pro", owned_by: "google", released: "2025-06-17", context_window: 1048576, max_output_tokens: 65536, vision: true, thinking: true },
+  { id: "gemini-3-pro-preview", display_name: "Gemini 3 Pro Preview", owned_by: "google", released: "2025-11-18", context_window: 1048576, max_output_tokens: 65536, vision: true, thinking: true },
+];
+
+// Anthropic 风格的无日期别名 -> 带日期的模型 ID
+const MODEL_ID_ALIASES: Record<string, string> = {
+  "claude-opus-4-5": "claude-opus-4-5-20251101",
+  "claude-sonnet-4-5": "claude-sonnet-4-5-20250929",
+  "claude-haiku-4-5": "claude-haiku-4-5-20251001",
+  "claude-opus-4-1": "claude-opus-4-1-20250805",
+  "claude-sonnet-4-0": "claude-sonnet-4-20250514",
+};
 
-    console.log("正在发送Factory AI请求...");
+const CLAUDE_MODEL_PREFIXES = [
+  { prefix: "", label: "", owned_by: "anthropic" },
+  { prefix: "bedrock-", label: "Bedrock", owned_by: "aws-bedrock" },
+  { prefix: "vertex-", label: "Vertex", owned_by: "google-vertex" },
+];
 
-    console.log("URL: https://app.factory.ai/api/llm/o/v1/responses");
+const CLAUDE_MODEL_SUFFIXES = [
+  { suffix: "", label: "" },
+  { suffix: "-thinking", label: "Thinking" },
+  { suffix: "-search", label: "Search" },
+  { suffix: "-thinking-search", label: "Thinking, Search" },
+];
 
-    console.log("模型:", factoryReq.model);
+function buildModelCatalogEntry(base: BaseModelInfo, id: string, ownedBy: string, labels: string[]): ModelCatalogEntry {
 
-    console.log("指令:", factoryReq.instructions);
+  const tags = labels.filter(Boolean);
 
-    console.log("上游流式: true");
+  return {
+    id,
+    display_name: tags.length ? `${base.display_name} (${tags.join(", ")})` : base.display_name,
+    owned_by: ownedBy,
+    created: Math.floor(Date.parse(base.released) / 1000),
+    capabilities: {
+      context_window: base.context_window,
+      max_output_tokens: base.max_output_tokens,
+      vision: base.vision,
+      tools: true,
+      thinking: base.thinking,
+      // web_search 只在 Claude 上游可用
+      web_search: isClaudeModel(id),
+    },
+  };
 
-    console.log("最大输出tokens:", factoryReq.max_output_tokens);
+}
 
-    console.log("对话轮数:", factoryReq.input.length);
+// Claude 模型展开 bedrock- / vertex- 前缀和 -thinking / -search 后缀；-thinking-Nk 预算变体不逐一列出，按需解析
+const MODEL_CATALOG: ModelCatalogEntry[] = BASE_MODELS.flatMap((base) => {
 
-    const lastUser = [...factoryReq.input].reverse().find(m => m.role === "user");
+  if (!isClaudeModel(base.id)) return [buildModelCatalogEntry(base, base.id, base.owned_by, [])];
 
-    if (lastUser) {
+  return CLAUDE_MODEL_PREFIXES.flatMap(({ prefix, label, owned_by }) =>
+    CLAUDE_MODEL_SUFFIXES.map(({ suffix, label: suffixLabel }) =>
+      buildModelCatalogEntry(base, `${prefix}${base.id}${suffix}`, owned_by, [suffixLabel, label])
+    )
+  );
 
-      const firstTextPart = lastUser.content.find(part => "text" in part) as Extract<FactoryAIContentPart, { text: string }> | undefined;
+});
 
-      if (firstTextPart) {
+// 路由配置中的团队别名沿用目标模型的能力；目标不在目录中的别名不列出
+MODEL_CATALOG.push(...Object.entries(MODEL_ROUTING.aliases).flatMap(([name, alias]) => {
+  const target = resolveModelCatalogEntry(alias.model);
+  return target ? [{ ...target, id: name, display_name: `${name} (${target.id})` }] : [];
+}));
 
-        console.log("??????:", firstTextPart.text);
+// 目录中 Claude 模型允许的后缀：-thinking / -thinking-Nk，其后可跟 -search
+const CLAUDE_VARIANT_SUFFIX_RE = /^(?:-thinking(?:-\d+k)?)?(?:-search)?$/i;
 
-      } else if (lastUser.content.some(part => "image_url" in part)) {
+// 解析单个模型 ID：目录中的 ID、无日期别名以及目录外的 -thinking-Nk 等变体；其他后缀组合一律不认
+function resolveModelCatalogEntry(id: string): ModelCatalogEntry | undefined {
 
-        console.log("??????:", "[??????]");
+  const exact = MODEL_CATALOG.find(entry => entry.id === id);
 
-      }
+  if (exact) return exact;
 
-    }
+  const prefixMatch = /^(bedrock|vertex)[-_:]/i.exec(id);
 
-    console.log("-".repeat(50));
+  const prefix = CLAUDE_MODEL_PREFIXES.find(p => p.prefix === (prefixMatch ? `${prefixMatch[1].toLowerCase()}-` : ""))!;
 
+  const unprefixed = id.slice(prefixMatch?.[0].length ?? 0);
 
+  const baseId = normalizeClaudeModel(unprefixed);
 
-    const factoryResp = await fetch("https://app.factory.ai/api/llm/o/v1/responses", {
+  const base = BASE_MODELS.find(model => model.id === (MODEL_ID_ALIASES[baseId] ?? baseId));
 
-      method: "POST",
+  const suffix = unprefixed.slice(baseId.length);
 
-      headers: {
+  // 非 Claude 模型没有前缀和后缀变体（gpt-5-thinking 之类不是有效模型）
+  if (!base || (!isClaudeModel(base.id) && (prefixMatch || suffix))) return undefined;
 
-        "Content-Type": "application/json",
+  if (!CLAUDE_VARIANT_SUFFIX_RE.test(suffix)) return undefined;
 
-        Authorization: `Bearer ${apiKey}`,
+  const resolvedId = `${prefix.prefix}${base.id}${suffix}`;
 
-      },
+  const known = MODEL_CATALOG.find(entry => entry.id === resolvedId);
 
-      body: JSON.stringify(factoryReq),
+  if (known) return known;
 
-    });
+  // 目录外的后缀组合（如 -thinking-8k）
+  const labels = [
+    THINKING_SUFFIX_RE.test(suffix) ? "Thinking" : "",
+    /-search/i.test(suffix) ? "Search" : "",
+  ].filter(Boolean);
 
+  return buildModelCatalogEntry(base, resolvedId, isClaudeModel(base.id) ? prefix.owned_by : base.owned_by, [labels.join(", "), prefix.label]);
 
+}
 
-    if (!factoryResp.ok) {
+function toOpenAIModelObject(entry: ModelCatalogEntry) {
+  return {
+    id: entry.id,
+    object: "model",
+    created: entry.created,
+    owned_by: entry.owned_by,
+    capabilities: entry.capabilities,
+  };
+}
 
-      return await createErrorResponseFromUpstream(factoryResp, "Factory AI");
+function toAnthropicModelObject(entry: ModelCatalogEntry) {
+  return {
+    type: "model",
+    id: entry.id,
+    display_name: entry.display_name,
+    created_at: new Date(entry.created * 1000).toISOString(),
+    capabilities: entry.capabilities,
+  };
+}
 
-    }
+// Anthropic SDK 总会发送 anthropic-version，x-api-key 同样只有 Anthropic 客户端使用
+function wantsAnthropicFormat(req: Request): boolean {
+  return req.headers.has("anthropic-version") || req.headers.has("x-api-key");
+}
 
+async function handleModelsRequest(req: Request): Promise<Response> {
 
+  const anthropicFormat = wantsAnthropicFormat(req);
 
-    if (clientWantsStream) {
+  const unauthorized = () => anthropicFormat
+    ? createAnthropicErrorResponse("Missing or invalid proxy access key", "authentication_error")
+    : createErrorResponse("Missing or invalid proxy access key", 401, "invalid_proxy_key", "proxy_key");
 
-      return await pipeStreamToClient(factoryResp, openaiReq.model);
+  // 与其他端点一致：代理密钥头无效，或配置了代理密钥却未携带任何凭据时拒绝
+  const proxyHeaderToken = (req.headers.get(PROXY_KEY_HEADER) ?? "").trim();
 
-    }
+  if (proxyHeaderToken && !PROXY_ACCESS_KEY_SET.has(proxyHeaderToken)) return unauthorized();
 
+  const hasCredential = Boolean(proxyHeaderToken || extractAuthToken(req.headers.get("Authorization")) || req.headers.get("x-api-key")?.trim());
 
+  if (PROXY_ACCESS_KEY_SET.size > 0 && !hasCredential) return unauthorized();
 
-    return await collectFromUpstreamSSE(factoryResp, openaiReq.model);
+  const headers = {
+    "Content-Type": "application/json",
+    "Access-Control-Allow-Origin": "*",
+    "Access-Control-Allow-Methods": "GET, POST, OPTIONS",
+    "Access-Control-Allow-Headers": CORS_ALLOW_HEADERS,
+  };
 
-  } catch (error: any) {
+  const match = /\/v1\/models\/(.+)$/.exec(new URL(req.url).pathname);
 
-    console.error("处理请求时发生错误:", error);
+  if (match) {
 
-    return createErrorResponse(
+    const id = decodeURIComponent(match[1]);
 
-      `Internal Server Error: ${error?.message || String(error)}`,
+    const entry = resolveModelCatalogEntry(id);
 
-      500,
+    if (!entry) {
+      return anthropicFormat
+        ? createAnthropicErrorResponse(`model: ${id}`, "not_found_error")
+        : createErrorResponse(`The model '${id}' does not exist`, 404, "invalid_request_error", "model_not_found", "model");
+    }
 
-      "internal_error"
+    const body = anthropicFormat ? toAnthropicModelObject(entry) : toOpenAIModelObject(entry);
 
-    );
+    return new Response(JSON.stringify(body), { headers });
 
   }
 
+  const body = anthropicFormat
+    ? {
+        data: MODEL_CATALOG.map(toAnthropicModelObject),
+        has_more: false,
+        first_id: MODEL_CATALOG[0]?.id ?? null,
+        last_id: MODEL_CATALOG[MODEL_CATALOG.length - 1]?.id ?? null,
+      }
+    : { object: "list", data: MODEL_CATALOG.map(toOpenAIModelObject) };
+
+  return new Response(JSON.stringify(body), { headers });
+
 }
 
+
+
 /* ====== HTTP路由处理 ====== */
 
 async function handleRequest(req: Request): Promise<Response> {
@@ -3186,12 +7623,17 @@ async function handleRequest(req: Request): Promise<Response> {
     });
   }
 
+  const url = new URL(req.url);
+
+  // 模型列表是唯一的 GET 端点
+  if (req.method === "GET" && /\/v1\/models(?:\/|$)/.test(url.pathname)) {
+    return handleModelsRequest(req);
+  }
+
   if (req.method !== "POST") {
     return createErrorResponse("Method not allowed", 405, "invalid_request_error");
   }
 
-  const url = new URL(req.url);
-
   // 路由到不同的处理函数（注意：更具体的路径放前面）
   if (url.pathname.includes("/v1/messages/count_tokens")) {
     // Token 计数端点
@@ -3202,6 +7644,9 @@ async function handleRequest(req: Request): Promise<Response> {
   } else if (url.pathname.includes("/v1/chat/completions")) {
     // OpenAI 兼容格式端点
     return handleOpenAIRequest(req);
+  } else if (url.pathname.includes("/v1/responses")) {
+    // OpenAI Responses API 端点
+    return handleResponsesRequest(req);
   } else {
     return createErrorResponse("Not found", 404, "invalid_request_error");
   }
@@ -3211,7 +7656,7 @@ async function handleRequest(req: Request): Promise<Response> {
 
 /* ====== Node.js HTTP 服务器适配器 ====== */
 
-async function nodeRequestToFetchRequest(req: IncomingMessage, body: Buffer): Promise<Request> {
+async function nodeRequestToFetchRequest(req: IncomingMessage, res: ServerResponse, body: Buffer): Promise<Request> {
   const protocol = (req.socket as any).encrypted ? 'https' : 'http';
   const host = req.headers.host || 'localhost';
   const url = new URL(req.url || '/', `${protocol}://${host}`);
@@ -3227,10 +7672,17 @@ async function nodeRequestToFetchRequest(req: IncomingMessage, body: Buffer): Pr
     }
   }
 
+  // 响应还没写完连接就关闭，说明客户端已断开：中止上游请求和重试等待
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+
   return new Request(url.toString(), {
     method: req.method || 'GET',
     headers,
     body: req.method !== 'GET' && req.method !== 'HEAD' ? new Uint8Array(body) : undefined,
+    signal: controller.signal,
   });
 }
 
@@ -3309,7 +7761,7 @@ const server = createServer(async (req: IncomingMessage, res: ServerResponse) =>
     const body = Buffer.concat(chunks);
 
     // Convert to Fetch API Request
-    const fetchRequest = await nodeRequestToFetchRequest(req, body);
+    const fetchRequest = await nodeRequestToFetchRequest(req, res, body);
 
     // Process request
     const fetchResponse = await handleRequest(fetchRequest);
@@ -3337,16 +7789,20 @@ server.listen(PORT, () => {
   console.log(`反向代理服务器已启动，监听端口 ${PORT}`);
   console.log(`\n支持的端点:`);
   console.log(`  - OpenAI格式: http://localhost:${PORT}/v1/chat/completions`);
-  console.log(`  - Claude原生格式: http://localhost:${PORT}/v1/messages`);
+  console.log(`  - Responses格式: http://localhost:${PORT}/v1/responses`);
+  console.log(`  - Claude原生格式(全部模型): http://localhost:${PORT}/v1/messages`);
   console.log(`  - Token计数: http://localhost:${PORT}/v1/messages/count_tokens`);
+  console.log(`  - 模型列表: http://localhost:${PORT}/v1/models (GET)`);
   console.log(`\n支持模型:`);
   console.log(`  - Factory AI 模型 (通过OpenAI端点)`);
   console.log(`  - Claude 系列模型 (两个端点都支持)`);
   console.log(`  - Bedrock 模型 (模型名包含 'bedrock' 前缀)`);
   console.log(`  - Vertex 模型 (模型名包含 'vertex' 前缀)`);
+  console.log(`  - 路由表: ${process.env.MODEL_ROUTES_FILE ? `${process.env.MODEL_ROUTES_FILE} (${MODEL_ROUTING.routes.length} 条规则)` : "未配置，按模型名识别"}${MODEL_ROUTING.unknownModelProvider ? "，未知模型交给 Factory" : ""}`);
+  console.log(`  - 上游重试: 最多 ${DEFAULT_RETRY_POLICY.maxAttempts} 次尝试，退避 ${DEFAULT_RETRY_POLICY.baseDelayMs}-${DEFAULT_RETRY_POLICY.maxDelayMs}ms，每个请求最多重试 ${UPSTREAM_RETRY_BUDGET} 次`);
   console.log(`\nClaude特性:`);
-  console.log(`  - 思考模式: 模型名包含 '-thinking' 后缀自动启用`);
-  console.log(`  - 搜索模式: 模型名包含 '-search' 后缀启用 web_search 工具`);
+  console.log(`  - 思考模式: 模型名包含 '-thinking' / '-thinking-32k' 后缀或传入 reasoning_effort 启用`);
+  console.log(`  - 搜索模式: 模型名包含 '-search' 后缀或请求携带 web_search_options 时启用 web_search 工具`);
   console.log(`  - Opus 4.5: 自动启用 effort=high 和扩展思考`);
   console.log(`  - 提示词缓存: 自动添加缓存断点，兼容 SillyTavern 配置`);
   console.log(`    示例: claude-sonnet-4-5-thinking, claude-opus-4-5-search`);
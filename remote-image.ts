@@ -0,0 +1,268 @@
+// remote-image.ts
+
+import { request as httpRequest, IncomingMessage } from 'http';
+import { request as httpsRequest } from 'https';
+import { lookup as dnsLookup } from 'dns';
+import { BlockList, isIP } from 'net';
+import { Readable } from 'stream';
+
+
+/* ====== 远程图片抓取 ====== */
+
+// Claude 不能直接读取 http(s) 图片链接：base64 模式由代理下载后内联，url 模式交给上游的 url source
+export interface RemoteImageFetchConfig {
+
+  mode: "base64" | "url";
+
+  timeoutMs: number;
+
+  maxBytes: number;
+
+  // 非空时只允许这些主机；支持 "*.example.com" 通配子域名
+  allowHosts: string[];
+
+  // 优先于 allowHosts
+  denyHosts: string[];
+
+  // 允许连接内网 / 回环地址（内网图床或本地测试）；默认关闭
+  allowPrivateAddresses: boolean;
+
+  cacheSize: number;
+
+  cacheTtlMs: number;
+
+}
+
+export interface FetchedImage { mime: string; b64: string }
+
+export type RemoteImageFetcher = (url: string) => Promise<FetchedImage>;
+
+// 发出单次 GET 请求，不跟随重定向；checkAddress 为 true 时在建立连接时校验实际连接的 IP
+export type ImageRequester = (url: string, options: { signal: AbortSignal; checkAddress: boolean }) => Promise<Response>;
+
+// 默认拒绝本机和云厂商元数据地址，避免代理被用于访问内网
+export const DEFAULT_IMAGE_DENY_HOSTS = ["localhost", "127.0.0.1", "::1", "0.0.0.0", "169.254.169.254", "metadata.google.internal"];
+
+export const CLAUDE_IMAGE_MIMES = new Set(["image/png", "image/jpeg", "image/gif", "image/webp"]);
+
+// 重定向逐跳检查，防止公网地址跳转到内网
+const MAX_IMAGE_REDIRECTS = 5;
+
+export function isRemoteImageUrl(url: string): boolean {
+  return /^https?:\/\//i.test(url.trim());
+}
+
+function hostMatches(host: string, pattern: string): boolean {
+  const p = pattern.toLowerCase();
+  if (p.startsWith("*.")) return host.endsWith(p.slice(1));
+  return host === p;
+}
+
+// 内网、回环、链路本地等地址；IPv4 映射的 IPv6 地址（::ffff:a.b.c.d）按 IPv4 规则检查
+const PRIVATE_ADDRESS_BLOCKLIST = (() => {
+  const list = new BlockList();
+  const ipv4: [string, number][] = [
+    ["0.0.0.0", 8], ["10.0.0.0", 8], ["100.64.0.0", 10], ["127.0.0.0", 8], ["169.254.0.0", 16],
+    ["172.16.0.0", 12], ["192.0.0.0", 24], ["192.168.0.0", 16], ["198.18.0.0", 15], ["224.0.0.0", 4], ["240.0.0.0", 4],
+  ];
+  const ipv6: [string, number][] = [
+    ["::", 128], ["::1", 128], ["::", 96], ["64:ff9b::", 96], ["fc00::", 7], ["fe80::", 10], ["ff00::", 8],
+  ];
+  for (const [net, prefix] of ipv4) list.addSubnet(net, prefix, "ipv4");
+  for (const [net, prefix] of ipv6) list.addSubnet(net, prefix, "ipv6");
+  return list;
+})();
+
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return true;
+  return PRIVATE_ADDRESS_BLOCKLIST.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+// 作为 http(s).request 的 lookup：校验的就是随后用于建立连接的地址，DNS 重绑定无法绕过
+// Node 20 默认开启 autoSelectFamily，会以 all: true 调用，需要同时处理两种返回形式
+function publicAddressLookup(hostname: string, options: any, callback: (...args: any[]) => void): void {
+  dnsLookup(hostname, options, (err: NodeJS.ErrnoException | null, address: any, family?: number) => {
+    if (err) {
+      callback(err, address, family);
+      return;
+    }
+    const addresses: string[] = Array.isArray(address) ? address.map((entry: any) => entry.address) : [address];
+    if (addresses.length === 0 || addresses.some(isPrivateAddress)) {
+      callback(new Error("host resolves to a private address"), address, family);
+      return;
+    }
+    callback(null, address, family);
+  });
+}
+
+function toFetchHeaders(res: IncomingMessage): Headers {
+  const headers = new Headers();
+  for (const [key, value] of Object.entries(res.headers)) {
+    if (value === undefined) continue;
+    if (Array.isArray(value)) {
+      value.forEach(v => headers.append(key, v));
+    } else {
+      headers.set(key, value);
+    }
+  }
+  return headers;
+}
+
+// 默认实现直接使用 http / https 模块：fetch 无法在连接时替换 DNS 解析
+export const requestImage: ImageRequester = (url, { signal, checkAddress }) => {
+  return new Promise((resolve, reject) => {
+    const target = new URL(url);
+
+    // IP 字面量不经过 lookup，直接检查（URL 解析已把十进制 / 八进制 / 十六进制 IPv4 规范化为点分格式）
+    const literal = target.hostname.replace(/^\[|\]$/g, "");
+    if (checkAddress && isIP(literal) && isPrivateAddress(literal)) {
+      reject(new Error("host resolves to a private address"));
+      return;
+    }
+
+    const send = target.protocol === "https:" ? httpsRequest : httpRequest;
+
+    const req = send(target, {
+      method: "GET",
+      signal,
+      headers: { accept: "image/*" },
+      ...(checkAddress ? { lookup: publicAddressLookup as any } : {}),
+    }, (res) => {
+      const status = res.statusCode ?? 502;
+      const body = status === 204 || status === 304 ? null : Readable.toWeb(res) as unknown as ReadableStream<Uint8Array>;
+      resolve(new Response(body, { status, headers: toFetchHeaders(res) }));
+    });
+
+    req.on("error", reject);
+    req.end();
+  });
+};
+
+export function isImageHostAllowed(url: string, config: RemoteImageFetchConfig): boolean {
+  let host: string;
+  try {
+    host = new URL(url).hostname.toLowerCase().replace(/^\[|\]$/g, "");
+  } catch {
+    return false;
+  }
+  if (config.denyHosts.some(pattern => hostMatches(host, pattern))) return false;
+  if (config.allowHosts.length > 0) return config.allowHosts.some(pattern => hostMatches(host, pattern));
+  return true;
+}
+
+// 按文件头识别图片格式，服务端返回的 Content-Type 经常不可靠
+export function sniffImageMime(bytes: Uint8Array): string | null {
+  if (bytes.length >= 8 && bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) return "image/png";
+  if (bytes.length >= 3 && bytes[0] === 0xff && bytes[1] === 0xd8 && bytes[2] === 0xff) return "image/jpeg";
+  if (bytes.length >= 6 && bytes[0] === 0x47 && bytes[1] === 0x49 && bytes[2] === 0x46 && bytes[3] === 0x38) return "image/gif";
+  if (bytes.length >= 12 &&
+      bytes[0] === 0x52 && bytes[1] === 0x49 && bytes[2] === 0x46 && bytes[3] === 0x46 &&
+      bytes[8] === 0x57 && bytes[9] === 0x45 && bytes[10] === 0x42 && bytes[11] === 0x50) return "image/webp";
+  return null;
+}
+
+async function readBodyWithLimit(resp: Response, maxBytes: number): Promise<Uint8Array> {
+  const reader = resp.body?.getReader();
+  if (!reader) return new Uint8Array(0);
+
+  const chunks: Uint8Array[] = [];
+  let total = 0;
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    total += value.length;
+    if (total > maxBytes) {
+      await reader.cancel().catch(() => {});
+      throw new Error(`image exceeds ${maxBytes} bytes`);
+    }
+    chunks.push(value);
+  }
+
+  const out = new Uint8Array(total);
+  let offset = 0;
+  for (const chunk of chunks) {
+    out.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return out;
+}
+
+// requestImpl 可注入；配合 allowPrivateAddresses 可以直接针对本地 HTTP 服务测试
+export function createRemoteImageFetcher(
+  config: RemoteImageFetchConfig,
+  requestImpl: ImageRequester = requestImage,
+): RemoteImageFetcher {
+  // Map 保持插入顺序，命中时重新插入实现简单的 LRU
+  const cache = new Map<string, { image: FetchedImage; expiresAt: number }>();
+
+  return async (url: string): Promise<FetchedImage> => {
+    const cached = cache.get(url);
+    if (cached && cached.expiresAt > Date.now()) {
+      cache.delete(url);
+      cache.set(url, cached);
+      return cached.image;
+    }
+    cache.delete(url);
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), config.timeoutMs);
+
+    try {
+      let currentUrl = url;
+      let resp: Response;
+
+      for (let hop = 0; ; hop++) {
+        if (!isRemoteImageUrl(currentUrl) || !isImageHostAllowed(currentUrl, config)) {
+          throw new Error("host is not allowed");
+        }
+
+        resp = await requestImpl(currentUrl, { signal: controller.signal, checkAddress: !config.allowPrivateAddresses });
+
+        const location = resp.headers.get("location");
+        if (resp.status < 300 || resp.status >= 400 || !location) break;
+
+        await resp.body?.cancel().catch(() => {});
+        if (hop >= MAX_IMAGE_REDIRECTS) {
+          throw new Error(`too many redirects (> ${MAX_IMAGE_REDIRECTS})`);
+        }
+        currentUrl = new URL(location, currentUrl).toString();
+      }
+
+      if (!resp.ok) {
+        throw new Error(`HTTP ${resp.status}`);
+      }
+
+      const declaredLength = Number(resp.headers.get("content-length") ?? "0");
+      if (declaredLength > config.maxBytes) {
+        await resp.body?.cancel().catch(() => {});
+        throw new Error(`image exceeds ${config.maxBytes} bytes`);
+      }
+
+      const bytes = await readBodyWithLimit(resp, config.maxBytes);
+      const headerMime = (resp.headers.get("content-type") ?? "").split(";")[0].trim().toLowerCase();
+      const mime = sniffImageMime(bytes) ?? (CLAUDE_IMAGE_MIMES.has(headerMime) ? headerMime : null);
+      if (!mime) {
+        throw new Error(`unsupported image type (${headerMime || "unknown"})`);
+      }
+
+      const image = { mime, b64: Buffer.from(bytes).toString("base64") };
+
+      if (config.cacheSize > 0) {
+        cache.set(url, { image, expiresAt: Date.now() + config.cacheTtlMs });
+        while (cache.size > config.cacheSize) {
+          const oldest = cache.keys().next().value;
+          if (oldest === undefined) break;
+          cache.delete(oldest);
+        }
+      }
+
+      return image;
+    } catch (e: any) {
+      if (e?.name === "AbortError" || controller.signal.aborted) throw new Error(`timed out after ${config.timeoutMs}ms`);
+      throw e;
+    } finally {
+      clearTimeout(timer);
+    }
+  };
+}
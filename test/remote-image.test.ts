@@ -0,0 +1,157 @@
+// test/remote-image.test.ts
+
+import { test, before, after } from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import { createRemoteImageFetcher, isPrivateAddress, RemoteImageFetchConfig } from '../remote-image.js';
+
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0x00, 0x00, 0x00, 0x0d]);
+
+let server: Server;
+let base: string;
+
+before(async () => {
+  server = createServer((req, res) => {
+    switch (req.url) {
+      case "/image.png":
+        // 故意给出错误的 Content-Type，验证按文件头识别
+        res.writeHead(200, { "content-type": "application/octet-stream" });
+        res.end(PNG);
+        return;
+      case "/typed.jpg":
+        res.writeHead(200, { "content-type": "image/jpeg; charset=binary" });
+        res.end(Buffer.from("not really a jpeg"));
+        return;
+      case "/page.html":
+        res.writeHead(200, { "content-type": "text/html" });
+        res.end("<html></html>");
+        return;
+      case "/large-declared":
+        res.writeHead(200, { "content-type": "image/png", "content-length": "4096" });
+        res.end(Buffer.alloc(4096));
+        return;
+      case "/large-streamed":
+        res.writeHead(200, { "content-type": "image/png" });
+        res.write(PNG);
+        res.end(Buffer.alloc(4096));
+        return;
+      case "/slow":
+        setTimeout(() => {
+          res.writeHead(200, { "content-type": "image/png" });
+          res.end(PNG);
+        }, 500);
+        return;
+      case "/redirect":
+        res.writeHead(302, { location: "/image.png" });
+        res.end();
+        return;
+      case "/loop":
+        res.writeHead(302, { location: "/loop" });
+        res.end();
+        return;
+      case "/redirect-denied":
+        res.writeHead(302, { location: "http://metadata.google.internal/latest" });
+        res.end();
+        return;
+      default:
+        res.writeHead(404);
+        res.end();
+    }
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+});
+
+function localConfig(overrides: Partial<RemoteImageFetchConfig> = {}): RemoteImageFetchConfig {
+  return {
+    mode: "base64",
+    timeoutMs: 2000,
+    maxBytes: 1024,
+    allowHosts: [],
+    denyHosts: ["metadata.google.internal"],
+    allowPrivateAddresses: true,
+    cacheSize: 0,
+    cacheTtlMs: 0,
+    ...overrides,
+  };
+}
+
+test("按文件头识别 MIME，忽略错误的 Content-Type", async () => {
+  const image = await createRemoteImageFetcher(localConfig())(`${base}/image.png`);
+  assert.equal(image.mime, "image/png");
+  assert.equal(image.b64, PNG.toString("base64"));
+});
+
+test("无法识别文件头时使用 Content-Type", async () => {
+  const image = await createRemoteImageFetcher(localConfig())(`${base}/typed.jpg`);
+  assert.equal(image.mime, "image/jpeg");
+});
+
+test("拒绝非图片内容", async () => {
+  await assert.rejects(createRemoteImageFetcher(localConfig())(`${base}/page.html`), /unsupported image type \(text\/html\)/);
+});
+
+test("Content-Length 超过上限时拒绝", async () => {
+  await assert.rejects(createRemoteImageFetcher(localConfig())(`${base}/large-declared`), /exceeds 1024 bytes/);
+});
+
+test("未声明长度时按实际读取字节数限制", async () => {
+  await assert.rejects(createRemoteImageFetcher(localConfig())(`${base}/large-streamed`), /exceeds 1024 bytes/);
+});
+
+test("超时", async () => {
+  await assert.rejects(createRemoteImageFetcher(localConfig({ timeoutMs: 100 }))(`${base}/slow`), /timed out after 100ms/);
+});
+
+test("非 2xx 状态", async () => {
+  await assert.rejects(createRemoteImageFetcher(localConfig())(`${base}/missing`), /HTTP 404/);
+});
+
+test("deny 列表优先于 allow 列表", async () => {
+  const fetcher = createRemoteImageFetcher(localConfig({ allowHosts: ["127.0.0.1"], denyHosts: ["127.0.0.1"] }));
+  await assert.rejects(fetcher(`${base}/image.png`), /host is not allowed/);
+});
+
+test("allow 列表之外的主机被拒绝", async () => {
+  const fetcher = createRemoteImageFetcher(localConfig({ allowHosts: ["*.example.com"] }));
+  await assert.rejects(fetcher(`${base}/image.png`), /host is not allowed/);
+});
+
+test("跟随重定向", async () => {
+  const image = await createRemoteImageFetcher(localConfig())(`${base}/redirect`);
+  assert.equal(image.mime, "image/png");
+});
+
+test("重定向次数有上限", async () => {
+  await assert.rejects(createRemoteImageFetcher(localConfig())(`${base}/loop`), /too many redirects/);
+});
+
+test("重定向目标同样检查 deny 列表", async () => {
+  await assert.rejects(createRemoteImageFetcher(localConfig())(`${base}/redirect-denied`), /host is not allowed/);
+});
+
+test("默认拒绝连接内网地址：IP 字面量", async () => {
+  const fetcher = createRemoteImageFetcher(localConfig({ allowPrivateAddresses: false }));
+  await assert.rejects(fetcher(`${base}/image.png`), /private address/);
+});
+
+test("默认拒绝连接内网地址：建立连接时检查域名解析结果", async () => {
+  const port = (server.address() as AddressInfo).port;
+  const fetcher = createRemoteImageFetcher(localConfig({ allowPrivateAddresses: false }));
+  await assert.rejects(fetcher(`http://localhost:${port}/image.png`), /private address/);
+});
+
+test("isPrivateAddress", () => {
+  for (const address of ["127.0.0.1", "10.1.2.3", "169.254.169.254", "192.168.0.1", "::1", "fd00::1", "::ffff:127.0.0.1", "not-an-ip"]) {
+    assert.equal(isPrivateAddress(address), true, address);
+  }
+  for (const address of ["8.8.8.8", "1.1.1.1", "2606:4700:4700::1111"]) {
+    assert.equal(isPrivateAddress(address), false, address);
+  }
+});